@@ -11,6 +11,24 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// Headless CLI (src/cli.ts): a standalone Node bundle, no Obsidian API
+if (process.argv[2] === "cli") {
+	await esbuild.build({
+		banner: {
+			js: "#!/usr/bin/env node\n" + banner,
+		},
+		entryPoints: ["src/cli.ts"],
+		bundle: true,
+		platform: "node",
+		external: [...builtins],
+		format: "cjs",
+		target: "node18",
+		logLevel: "info",
+		outfile: "cli.js",
+	});
+	process.exit(0);
+}
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
@@ -1,69 +1,116 @@
 // main.ts
 import {
-  App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile
+  App, Editor, getAllTags, MarkdownView, Modal, normalizePath, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile,
+  TFolder
 } from 'obsidian';
 import * as YAML from 'js-yaml';
-
-/* =========================
-   Types (no 'any' casts)
-   ========================= */
-type TagLang = { code: string; max: number };
-
-// Frontmatter object we manipulate
-type FrontmatterData = Record<string, unknown> & {
-  tags?: string[] | string;
-  title?: string;
-  summary?: string;
-  created?: string | number | Date;
-  fm_created?: string;
-};
-
-// helper: narrow arbitrary value to object
-function isObject(v: unknown): v is Record<string, unknown> {
-  return typeof v === 'object' && v !== null;
-}
+import { BatchQueue, BatchState, createBatchState } from './src/batch';
+import { BatchReportModal, FolderSuggestModal } from './src/batch-modals';
+import { reviewProposal } from './src/review-modal';
+import { createProvider, fetchHttpClient, getPreset, JsonMode, ProviderError, PROVIDER_PRESETS, TokenUsage } from './src/providers';
+import { JsonFileStore } from './src/storage';
+import { CorpusStore } from './src/corpus-store';
+import { ResponseCache } from './src/response-cache';
+import { hashString } from './src/hash';
+import { HistoryEntry, HistoryStore } from './src/history';
+import { HistoryModal } from './src/history-modal';
+import { AutoSettings, AutoTrigger, ineligibleReason, SelfWriteGuard } from './src/auto-trigger';
+import { parseList } from './src/glob';
+import { parseTaxonomy, Taxonomy, taxonomyFormatFor } from './src/taxonomy';
+import { applyEdits, extractInlineTags, findInlineTags, InlineTagMode, INLINE_TAG_MODE_LABELS, renameInlineTags } from './src/inline-tags';
+import { buildClusterPrompt, groupSimilarTags, parseClusterPairs, renameTagList, tagRenamer } from './src/consolidate';
+import { reviewTagMerges } from './src/consolidation-modal';
+import { BudgetExceededError, costOf, DEFAULT_PRICES, formatCost, formatPriceTable, parsePriceTable, priceFor, UsageLog } from './src/usage';
+import { UsageModal } from './src/usage-modal';
+import { NetworkError, RequestAbortedError, withRetries } from './src/http';
+import { HttpTransport, HTTP_TRANSPORT_LABELS, obsidianHttpClient } from './src/request-url';
+import {
+  AuditReport, changeRatio, emptyAuditReport, frontmatterProblem, frontmatterTags, missingFields, parseQueuedLinks,
+  renderAuditReport, tagFormatProblem, tagMention, unmergedInlineTags
+} from './src/audit';
+import { DEFAULT_PROMPT_TEMPLATES, PROMPT_VARIABLE_DOCS, ResponseFormat, RESPONSE_FORMAT_LABELS, unknownVariables } from './src/prompt-template';
+import { TagLangWhen, TAG_FORMAT_SAMPLES, TAG_LANG_LABELS, TAG_LANG_WHEN_LABELS } from './src/languages';
+import { formatExistingTag, formatTag, TagCase, tagCaseFor, TagFormatPolicy, tagKey, TAG_CASE_LABELS } from './src/tags';
+import { formatAliasTable, parseAliasTable, TagStat, VocabularyMode } from './src/vocabulary';
+import { estimateTokens } from './src/chunking';
+import { DEFAULT_SCHEMA, schemaFieldProblem, SchemaFieldType, SCHEMA_FIELD_TYPES, validSchemaFields } from './src/schema';
+import { MergePolicy, MERGE_POLICY_LABELS, readLocks } from './src/merge';
+import {
+  CorpusIndex, CorpusStats, EngineMode, ENGINE_MODE_LABELS, KeywordMethod, KEYWORD_METHOD_LABELS, SummaryMethod,
+  SUMMARY_METHOD_LABELS
+} from './src/local-engine';
+import {
+  DEFAULT_PROFILE, DEFAULT_SETTINGS, FMSettings, isObject, normalizeSettings, promptTemplateFor, promptTemplateKey,
+  resolveProfile, ResolvedSettings, resolveSettingsFor
+} from './src/settings';
+import {
+  acceptAll, applyFields, asArray, bodyTagEdits, buildPrompt, coerceAccepted, CONTENT_HASH_KEY, contentHash, DEFAULT_FIELD_POLICIES,
+  formatYYYYMMDDLocal, LINK_CONTEXT_MAX, LinkedNote, localizedFields, parseAIAnswer, PipelineHost, planNoteUpdate, safeLoadYaml, sanitizeBodyForLLM,
+  settingsForBody, splitFrontmatter, systemPromptFor
+} from './src/pipeline';
 
 /* =========================
    Language labels/choices
    ========================= */
-const TAG_LANG_LABELS: Record<string, string> = {
-  en: 'English',
-  ko: '한국어',
-  ja: '日本語',
-  zh: '中文',
-  es: 'Español',
-  de: 'Deutsch',
-  fr: 'Français',
-};
-
 const TAG_LANG_CHOICES: Array<{ code: string; label: string }> =
   Object.entries(TAG_LANG_LABELS).map(([code, label]) => ({ code, label }));
 
 /* =========================
-   Settings
+   Constants
    ========================= */
-interface FMSettings {
-  apiKey: string;
-  apiBase: string;      // ex) https://api.openai.com/v1
-  model: string;        // ex) gpt-4o-mini, gpt-4o
-  tagLangs: TagLang[];
-}
-
-const DEFAULT_SETTINGS: FMSettings = {
-  apiKey: '',
-  apiBase: 'https://api.openai.com/v1',
-  model: 'gpt-4o-mini',
-  tagLangs: [{ code: 'en', max: 10 }],
-};
+// Most-used tags sent to the AI for clustering (keeps the prompt bounded in large vaults)
+const CLUSTER_TAG_LIMIT = 400;
+// Expected answer size per note for the batch cost estimate
+const ESTIMATED_COMPLETION_TOKENS = 400;
+// Backoff between retries: 1s, 2s, 4s… (Retry-After is honored up to the maximum)
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
 
 /* =========================
    Plugin
    ========================= */
 export default class FrontmatterAutomation extends Plugin {
   settings: FMSettings;
+  private batch: BatchQueue | null = null;
+  private batchStore: JsonFileStore<BatchState>;
+  private history: HistoryStore;
+  responseCache: ResponseCache;
+  usage: UsageLog;
+  corpus: CorpusStore;
+  private selfWrites = new SelfWriteGuard();
+  private inflight = new Set<AbortController>();   // running AI requests, for cancellation
+  // Obsidian side of the note pipeline shared with the CLI
+  private host: PipelineHost = {
+    askAI: (s, format, prompt, path, force) => this.callAIForObject(s, format, prompt, path, force),
+    loadTaxonomy: (s) => this.loadTaxonomy(s),
+    vaultTags: () => this.getVaultTagStats(),
+    corpus: () => this.corpusStats(),
+    relatedNotes: (path, body, tags, max) => this.relatedNotes(path, body, tags, max),
+    linkedNotes: async (path) => this.linkedNotes(path),
+    notify: (message, timeoutMs) => new Notice(message, timeoutMs),
+  };
+  private statusBarEl: HTMLElement;
+  private unloading = false;
 
   async onload() {
     await this.loadSettings();
+    this.batchStore = new JsonFileStore(this.app.vault.adapter, `${this.manifest.dir}/batch-state.json`);
+    this.history = new HistoryStore(this.app.vault.adapter, `${this.manifest.dir}/history`, () => ({
+      maxPerFile: this.settings.historyMaxPerFile,
+      maxEntries: this.settings.historyMaxEntries,
+      maxAgeDays: this.settings.historyMaxAgeDays,
+    }));
+    this.responseCache = new ResponseCache(
+      new JsonFileStore(this.app.vault.adapter, `${this.manifest.dir}/response-cache.json`),
+      () => this.settings.responseCacheMaxEntries
+    );
+    this.usage = new UsageLog(
+      new JsonFileStore(this.app.vault.adapter, `${this.manifest.dir}/usage-log.json`),
+      () => this.settings.usageLogMaxEntries
+    );
+    this.corpus = new CorpusStore(new JsonFileStore(this.app.vault.adapter, `${this.manifest.dir}/corpus-index.json`));
+    this.statusBarEl = this.addStatusBarItem();
+    this.statusBarEl.hide();
 
     // Ribbon button
     this.addRibbonIcon('wand-2', 'Frontmatter: update current note', async () => {
@@ -77,455 +124,922 @@ export default class FrontmatterAutomation extends Plugin {
       callback: async () => this.processCurrentNote(),
     });
 
-    // Settings Tab
-    this.addSettingTab(new FMSettingTab(this.app, this));
-  }
+    this.addCommand({
+      id: 'fm-update-current-note-force',
+      name: 'Frontmatter: update current note (force, bypass cache)',
+      callback: async () => this.processCurrentNote(true),
+    });
 
-  onunload() {}
+    // Commands - Batch runs
+    this.addCommand({
+      id: 'fm-update-folder',
+      name: 'Frontmatter: update all notes in folder…',
+      callback: () => new FolderSuggestModal(this.app, (folder) => this.processFolder(folder)).open(),
+    });
 
-  // === Core logic ===
-  private async processCurrentNote() {
-    const file = this.app.workspace.getActiveFile();
-    if (!file) return new Notice('No active note.');
-    await this.updateFrontmatterForFile(file);
-  }
+    this.addCommand({
+      id: 'fm-update-vault',
+      name: 'Frontmatter: update whole vault',
+      callback: async () => {
+        const files = this.app.vault.getMarkdownFiles();
+        await this.startBatch('Whole vault', files);
+      },
+    });
 
-  private async updateFrontmatterForFile(file: TFile) {
-    // 1) Read raw file and split into frontmatter/body (FM is only used as reference for prompt)
-    const raw = await this.app.vault.read(file);
-    const { frontmatter, body } = this.splitFrontmatter(raw);
+    this.addCommand({
+      id: 'fm-batch-cancel',
+      name: 'Frontmatter: cancel batch run',
+      checkCallback: (checking) => {
+        if (!this.batch) return false;
+        if (!checking) this.cancelBatch();
+        return true;
+      },
+    });
 
-    // 2) Extract inline tags from the body and remove them
-    const { inlineTags, strippedBody } = extractInlineTagsAndStrip(body);
+    this.addCommand({
+      id: 'fm-batch-resume',
+      name: 'Frontmatter: resume interrupted batch run',
+      callback: async () => this.resumeBatch(),
+    });
 
-    // 3) Build JSON prompt (existing FM used as reference only)
-    const jsonPrompt = this.buildJsonPrompt({
-      path: file.path,
-      body: strippedBody,
-      existingFM: frontmatter,
+    // Commands - History
+    this.addCommand({
+      id: 'fm-undo-last',
+      name: 'Frontmatter: undo last frontmatter update',
+      callback: async () => {
+        // The active note's last update first, else the last one in the vault
+        const activeFile = this.app.workspace.getActiveFile();
+        const entry = (activeFile ? (await this.history.list(activeFile.path))[0] : undefined) ?? await this.history.latest();
+        if (!entry) {
+          new Notice('No frontmatter update to undo.');
+          return;
+        }
+        // Edited since the run (or unknown): keep the current content in the history instead of discarding it
+        const file = this.app.vault.getAbstractFileByPath(entry.path);
+        const current = file instanceof TFile ? await this.app.vault.read(file) : null;
+        const unchanged = current !== null && entry.resultHash !== undefined && hashString(current) === entry.resultHash;
+        await this.restoreSnapshot(entry, { keepCurrent: !unchanged });
+        if (current !== null && !unchanged) new Notice('The note changed after that update; its current content was saved to the history.');
+      },
     });
 
-    // 4) Call LLM → expected { title, summary, tags_by_lang }
-    const obj = await this.callAIForJSON(jsonPrompt);
-    if (!obj || typeof obj !== 'object') {
-      new Notice(`Did not receive JSON from AI: ${file.path}`);
-      return;
-    }
+    this.addCommand({
+      id: 'fm-history',
+      name: 'Frontmatter: show history for current note',
+      checkCallback: (checking) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file) return false;
+        if (!checking) {
+          new HistoryModal(this.app, file.path, this.history, (entry) => this.restoreSnapshot(entry, { keepCurrent: true })).open();
+        }
+        return true;
+      },
+    });
 
-    // Flatten tags_by_lang into one array
-    const tagsByLang: Record<string, string[]> =
-      (obj as Record<string, unknown>).tags_by_lang as Record<string, string[]> ?? {};
-    const aiFlatTags = Object.values(tagsByLang).flat().filter(Boolean);
+    this.addCommand({
+      id: 'fm-cancel-requests',
+      name: 'Frontmatter: cancel running AI requests',
+      checkCallback: (checking) => {
+        if (!this.inflight.size && !this.batch) return false;
+        if (!checking) this.cancelAIRequests();
+        return true;
+      },
+    });
 
-    // 5) Tag merge order: inline → existing FM → AI (dedupe, preserve case)
-    const chosen = new Map<string, string>();
+    // Command - Usage
+    this.addCommand({
+      id: 'fm-usage',
+      name: 'Frontmatter: show token usage and cost',
+      callback: () => new UsageModal(this.app, this.usage, this.budget()).open(),
+    });
 
-    const addKeepCase = (arr: unknown[]) => {
-      for (const t of arr) {
-        const rawTag = formatExistingTag(String(t ?? ''));
-        const k = tagKey(rawTag);
-        if (k && !chosen.has(k)) chosen.set(k, rawTag);
-      }
-    };
-    const addAi = (arr: unknown[]) => {
-      for (const t of arr) {
-        const rawTag = formatAiTag(String(t ?? ''));
-        const k = tagKey(rawTag);
-        if (k && !chosen.has(k)) chosen.set(k, rawTag);
-      }
-    };
+    // Commands - Audit
+    this.addCommand({
+      id: 'fm-audit',
+      name: 'Frontmatter: audit vault (write report note)',
+      callback: async () => this.runAudit(),
+    });
 
-    addKeepCase(inlineTags);                       // Inline tags first
-    addKeepCase(asArray(frontmatter?.tags));       // Then existing FM
-    addAi(aiFlatTags);                             // Finally AI tags
-    const finalTags = Array.from(chosen.values());
-
-    // 6) FRONTMATTER FIRST: update FM atomically (leave `created` untouched if present)
-    await this.app.fileManager.processFrontMatter(file, (fm) => {
-      // title/summary: overwrite if provided by AI
-      const t = (obj as Record<string, unknown>).title;
-      const s = (obj as Record<string, unknown>).summary;
-      if (typeof t === 'string') fm.title = t;
-      if (typeof s === 'string') fm.summary = s;
-
-      const existing = Array.isArray(fm.tags) ? fm.tags : (typeof fm.tags !== 'undefined' ? [fm.tags] : []);
-      const mergedOnce = Array.from(new Set([
-        ...existing.map((v: unknown) => String(v ?? '')),
-        ...finalTags.map((v: string) => String(v ?? '')),
-      ]))
-        .filter(Boolean)
-        .map(x => x.replace(/^#/, ''))
-        .map(x => x.replace(/\s+/g, '-'));
-
-      fm.tags = Array.from(new Set(mergedOnce));
-
-      // Remove unnecessary/forbidden fields
-      const g = fm as { [k: string]: unknown };
-      delete g['updated'];
-      delete g['last_modified'];
-      delete g['path'];
-
-      // ✅ created: only fill when missing; DO NOT touch existing values (prevents off-by-one)
-      if (fm.created == null || fm.created === '') {
-        const stat = file.stat;
-        const baseTs = stat?.ctime ?? stat?.mtime ?? Date.now();
-        fm.created = formatYYYYMMDDLocal(baseTs);  // 'YYYY-MM-DD'
-      }
+    this.addCommand({
+      id: 'fm-audit-queue',
+      name: 'Frontmatter: regenerate notes flagged in the audit report',
+      callback: async () => this.queueAuditReport(this.auditReportPath()),
+    });
 
-      // fm_created: always record today's date (local)
-      fm.fm_created = formatYYYYMMDDLocal(Date.now());
+    // obsidian://fm-audit-queue?file=<report path> (the link at the top of the report)
+    this.registerObsidianProtocolHandler('fm-audit-queue', async (params) => {
+      await this.queueAuditReport(params.file ? normalizePath(params.file) : this.auditReportPath());
     });
 
-    // 7) BODY SECOND: replace ONLY the body while preserving the FM text exactly
-    {
-      const latestRaw = await this.app.vault.read(file);
-      let newContent = strippedBody;
-
-      if (latestRaw.startsWith('---')) {
-        const end = latestRaw.indexOf('\n---', 3);
-        if (end !== -1) {
-          const fmBlock = latestRaw.slice(0, end + 4); // includes the closing '---'
-          // keep FM block AS-IS, only replace the body with strippedBody
-          newContent = `${fmBlock}\n\n${strippedBody}`;
+    // Command - Tag consolidation
+    this.addCommand({
+      id: 'fm-consolidate-tags',
+      name: 'Frontmatter: consolidate similar tags…',
+      callback: async () => this.consolidateTags(),
+    });
+
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      if (file instanceof TFile) this.history.rename(oldPath, file.path);
+    }));
+
+    // File explorer context menus (single folder / multi-selection)
+    this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+      if (!(file instanceof TFolder)) return;
+      menu.addItem(item => item
+        .setTitle('Frontmatter: update all notes in folder')
+        .setIcon('wand-2')
+        .onClick(() => this.processFolder(file)));
+    }));
+
+    this.registerEvent(this.app.workspace.on('files-menu', (menu, files) => {
+      const notes = collectMarkdownFiles(files);
+      if (!notes.length) return;
+      menu.addItem(item => item
+        .setTitle(`Frontmatter: update ${notes.length} selected notes`)
+        .setIcon('wand-2')
+        .onClick(() => this.startBatch('Selected files', notes)));
+    }));
+
+    // Automatic runs (registered after startup: the vault fires `create` for every file while loading)
+    const autoTrigger = new AutoTrigger(this, {
+      settings: () => this.autoSettings(),
+      guard: this.selfWrites,
+      isEligible: (file) => this.isAutoEligible(file),
+      run: async (file) => {
+        try {
+          await this.updateFrontmatterForFile(file, { quiet: true, review: false });
+        } catch (e) {
+          new Notice(`Automatic frontmatter update failed (${file.path}): ${e instanceof Error ? e.message : String(e)}`);
         }
-      }
+      },
+    });
 
-      const active = this.app.workspace.activeEditor?.editor;
-      const activeFile = this.app.workspace.getActiveFile();
+    // Offer to resume a run interrupted by a reload/quit
+    this.app.workspace.onLayoutReady(async () => {
+      autoTrigger.register();
 
-      if (active && activeFile && activeFile.path === file.path) {
-        const cur = active.getValue();
-        if (cur !== newContent) active.setValue(newContent);     // preserve cursor/folds
-      } else {
-        await this.app.vault.process(file, () => newContent);     // atomic background update
+      const saved = await this.batchStore.load();
+      if (saved?.pending.length) {
+        new Notice(
+          `Frontmatter batch "${saved.label}" was interrupted with ${saved.pending.length} notes left. ` +
+          'Run "Frontmatter: resume interrupted batch run" to continue.'
+        );
       }
-    }
+    });
 
-    new Notice(`Frontmatter updated: ${file.path}`);
+    // Settings Tab
+    this.addSettingTab(new FMSettingTab(this.app, this));
   }
 
+  onunload() {
+    // Leave the persisted state in place so the run can be resumed after reload
+    this.unloading = true;
+    this.batch?.cancel();
+    for (const c of this.inflight) c.abort();
+    this.responseCache.flush().catch(e => console.error('Failed to save response cache:', e));
+    this.usage.flush().catch(e => console.error('Failed to save usage log:', e));
+    this.corpus.flush().catch(e => console.error('Failed to save corpus index:', e));
+  }
 
+  // === Core logic ===
+  private async processCurrentNote(force = false) {
+    const file = this.app.workspace.getActiveFile();
+    if (!file) return new Notice('No active note.');
+    const progress = new Notice(createFragment(f => {
+      f.createSpan({ text: `Updating frontmatter: ${file.basename}… ` });
+      f.createEl('button', { text: 'Cancel' }).onclick = () => this.cancelAIRequests();
+    }), 0);
+    try {
+      await this.updateFrontmatterForFile(file, { force });
+    } catch (e) {
+      new Notice(e instanceof Error ? e.message : String(e));
+    } finally {
+      progress.hide();
+    }
+  }
 
-  // === Prompt generation (YAML path, unused in JSON mode but kept) ===
-  private buildPrompt(args: { path: string; body: string; existingFM: FrontmatterData | null }) {
-    const { path, body, existingFM } = args;
-    const cleanBody = sanitizeBodyForLLM(body, 40000, true);
-    const existingYaml = existingFM ? YAML.dump(existingFM).trim() : '(none)';
+  /** Abort every running AI request (pending retries included) and stop a batch run */
+  private cancelAIRequests() {
+    if (this.batch) this.batch.cancel();
+    for (const c of this.inflight) c.abort();
+    new Notice('Frontmatter: AI requests cancelled.');
+  }
 
-    // Rules string for language/number (e.g., "English:3, 한국어:3")
-    const langRule = (this.settings.tagLangs?.length ? this.settings.tagLangs : [{ code: 'en', max: 5 }])
-      .map(x => `${TAG_LANG_LABELS[x.code] ?? x.code}:${x.max}`)
-      .join(', ');
+  // === Batch runs ===
+  private async processFolder(folder: TFolder) {
+    const files = collectMarkdownFiles([folder]);
+    if (!files.length) {
+      new Notice(`No notes in ${folder.path}`);
+      return;
+    }
+    await this.startBatch(folder.isRoot() ? 'Whole vault' : folder.path, files);
+  }
 
-    return `
-    You are an assistant that outputs **pure YAML only** (no backticks, no fences).
-    Read the note body and produce exactly these fields:
-    - title: string
-    - tags: string[]
-    - summary: short string
+  // rerun: process notes even if unchanged since their last run
+  private async startBatch(label: string, files: TFile[], rerun = false) {
+    if (this.batch) {
+      new Notice('A frontmatter batch run is already in progress.');
+      return;
+    }
+    if (!(await this.confirmBatchCost(label, files, rerun))) return;
+    await this.runBatch(createBatchState(label, files.map(f => f.path), rerun));
+  }
 
-    Rules:
-    - Do NOT create fields about dates/paths (e.g., path, created, updated, last_modified, fm_created).
-    - Tags quota by language: ${langRule}.
-      - Generate **exactly** that many tags per language (no fewer/no more).
-      - Tags are keyphrases of 1-2 words, ideally 1.
-      - Lowercase; spaces → hyphens; no "#".
-      - Examples: "us-history", "government", "history", "government".
+  // Pre-flight estimate: prompt tokens of the notes that would be sent, priced per note's model
+  private async confirmBatchCost(label: string, files: TFile[], rerun: boolean): Promise<boolean> {
+    const notice = new Notice(`Estimating cost for ${files.length} notes…`, 0);
+    let notes = 0;
+    let tokens = 0;
+    let cost = 0;
+    let unpriced = 0;
+    try {
+      for (const file of files) {
+        const estimate = await this.estimateNote(file, rerun);
+        if (!estimate) continue;
+        notes++;
+        tokens += estimate.promptTokens + ESTIMATED_COMPLETION_TOKENS;
+        if (estimate.price) cost += costOf(estimate.promptTokens, ESTIMATED_COMPLETION_TOKENS, estimate.price);
+        else unpriced++;
+      }
+    } finally {
+      notice.hide();
+    }
 
-    Reference (do NOT include as fields):
-    - File path: "${path}"
+    const lines = [
+      `Update frontmatter for ${files.length} notes (${label})?`,
+      '',
+      `${notes} notes need an AI call (unchanged and locked notes are skipped).`,
+      `Estimated: ~${tokens} tokens, ~${formatCost(cost)}` + (unpriced ? ` (+${unpriced} notes on models without a price)` : ''),
+    ];
+    const remaining = await this.usage.remaining(this.budget());
+    if (remaining !== null) {
+      lines.push(`Budget left: ${formatCost(remaining)}` + (cost > remaining ? ' — the run will stop when the cap is reached.' : ''));
+    }
+    return window.confirm(lines.join('\n'));
+  }
 
-    Existing frontmatter (if any):
-    ${existingYaml}
+  // Prompt size for one note as the run would build it; null when the run would skip the note
+  private async estimateNote(file: TFile, rerun: boolean) {
+    const { frontmatter, body } = splitFrontmatter(await this.app.vault.cachedRead(file));
+    const { settings: s } = this.resolveSettings(file, frontmatter);
+    if (readLocks(frontmatter?.[s.lockKey]).all) return null;
+    const { body: nextBody } = extractInlineTags(body, s.inlineTagMode);
+    let taxonomy: Taxonomy | null = null;
+    try {
+      taxonomy = await this.loadTaxonomy(s);
+    } catch {
+      // The run reports a broken taxonomy per note; estimate without it
+    }
+    if (!rerun && s.skipUnchanged && frontmatter?.[CONTENT_HASH_KEY] === contentHash(s, nextBody, taxonomy)) return null;
+    if (s.engine === 'local') return null;
 
-    Body (images/code removed/truncated as needed):
-    ${cleanBody}
-    `.trim();
+    const prompt = buildPrompt(settingsForBody(s, nextBody), { path: file.path, body: nextBody, existingFM: frontmatter, taxonomy }, this.host);
+    const model = s.providers[s.provider]?.model ?? '';
+    return { promptTokens: estimateTokens(prompt), price: priceFor(s.modelPrices, model) };
   }
 
-  // === JSON prompt generation (recommended path) ===
-  private buildJsonPrompt(args: { path: string; body: string; existingFM: FrontmatterData | null }) {
-    const { path, body, existingFM } = args;
-    const cleanBody = sanitizeBodyForLLM(body, 40000, true);
-    const existingYaml = existingFM ? YAML.dump(existingFM).trim() : '(none)';
+  private budget() {
+    return { daily: this.settings.budgetDaily, monthly: this.settings.budgetMonthly };
+  }
 
-    // { "en":5, "ko":5, ... } map + description
-    const quotas = new Map(this.settings.tagLangs.map(x => [x.code, x.max]));
-    const langSpecLines: string[] = [];
-    for (const [code, max] of quotas) {
-      if (code === 'en') {
-        langSpecLines.push(`- "en": exactly ${max} tags; write multi-word concepts with spaces (or hyphens). Do NOT return concatenated forms like "legalprinciple". (Examples: "legal principle", "civil rights", "unlawful imprisonment", "US Constitution")`);
-      } else if (code === 'ko') {
-        langSpecLines.push(`- "ko": exactly ${max} tags; MUST contain Hangul (Korean). Do NOT use hyphens; write tags as a single concatenated word (no spaces).`);
-      } else if (code === 'ja') {
-        langSpecLines.push(`- "${code}": exactly ${max} tags; MUST be Japanese (Hiragana/Katakana/Kanji).`);
-      } else if (code === 'zh') {
-        langSpecLines.push(`- "${code}": exactly ${max} tags; MUST contain CJK ideographs (Chinese Han).`);
-      } else {
-        langSpecLines.push(`- "${code}": exactly ${max} tags; MUST be ${TAG_LANG_LABELS[code] ?? code} words.`);
-      }
+  private async resumeBatch() {
+    if (this.batch) {
+      new Notice('A frontmatter batch run is already in progress.');
+      return;
+    }
+    const saved = await this.batchStore.load();
+    if (!saved?.pending.length) {
+      new Notice('No interrupted batch run to resume.');
+      return;
     }
+    await this.runBatch(saved);
+  }
 
-    // Explicitly list tags_by_lang keys (fixed format)
-    const tagsObjShape = [...quotas.entries()]
-      .map(([code, max]) => `  "${code}": string[${max}]`)
-      .join(",\n");
-
-    return [
-      'Return **JSON only** (no code fences, no extra text).',
-      'The JSON must have exactly these fields:',
-      '{',
-      '  "title": string,',
-      '  "summary": string,',
-      '  "tags_by_lang": {',
-      tagsObjShape,
-      '  }',
-      '}',
-      '',
-      'Global tag rules:',
-      '- Tags are keyphrases of 1-2 words (prefer 1).',
-      '- Avoid "#" characters. Use separators only if appropriate for the language.',
-      '',
-      'Per-language constraints:',
-      ...langSpecLines,
-      '',
-      'Do NOT add any fields about dates/paths (e.g., path, created, updated, last_modified, fm_created).',
-      '',
-      `Reference (do NOT include as fields): file path = "${path}"`,
-      '',
-      'Existing frontmatter (if any):',
-      existingYaml,
-      '',
-      'Body (images/code removed/truncated as needed):',
-      cleanBody,
-    ].join('\n');
-  }
-
-  // === OpenAI-compatible endpoint call (JSON only) ===
-  private async callAIForJSON(prompt: string): Promise<Record<string, unknown> | null> {
-    if (!this.settings.apiKey) {
-      new Notice('API key not set. Please enter it in plugin settings.');
-      return null;
-    }
-
-    const url = `${this.settings.apiBase.replace(/\/+$/, '')}/chat/completions`;
-    const payload = {
-      model: this.settings.model,
-      messages: [
-        { role: 'system', content: 'You output JSON only. No code fences. No extra commentary.' },
-        { role: 'user', content: prompt },
-      ],
-      temperature: 0.2,
-      // Force JSON response format (remove if unsupported)
-      response_format: { type: "json_object" },
-    };
+  private cancelBatch() {
+    if (!this.batch) return;
+    this.batch.cancel();
+    new Notice('Cancelling frontmatter batch… (files in progress will finish)');
+  }
 
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${this.settings.apiKey}`,
-        'Content-Type': 'application/json',
+  private async runBatch(state: BatchState) {
+    const queue = new BatchQueue(state, {
+      settings: {
+        concurrency: this.settings.batchConcurrency,
+        requestsPerMinute: this.settings.batchRequestsPerMinute,
+      },
+      worker: async (path) => {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) throw new Error('File not found (moved or deleted)');
+        try {
+          await this.updateFrontmatterForFile(file, { quiet: true, review: false, rerun: state.rerun });
+        } catch (e) {
+          // Budget cap: stop handing out notes; say why once
+          if (e instanceof BudgetExceededError && !queue.isCancelled) {
+            queue.cancel();
+            new Notice(`Frontmatter batch stopped. ${e.message}`, 0);
+          }
+          throw e;
+        }
+      },
+      persist: (s) => this.batchStore.save(s),
+      onProgress: (p) => {
+        this.statusBarEl.setText(
+          `FM ${p.label}: ${p.done + p.failed}/${p.total}` + (p.failed ? ` (${p.failed} failed)` : '')
+        );
       },
-      body: JSON.stringify(payload),
     });
 
-    if (!res.ok) {
-      const t = await res.text();
-      console.error('AI call failed (OpenAI/JSON):', res.status, t);
-      new Notice(`AI call failed (OpenAI): ${res.status}`);
-      return null;
+    this.batch = queue;
+    this.statusBarEl.show();
+    this.statusBarEl.setAttr('aria-label', 'Click to cancel the frontmatter batch run');
+    this.statusBarEl.onclick = () => this.cancelBatch();
+    new Notice(`Frontmatter batch started: ${state.pending.length} notes (${state.label})`);
+
+    try {
+      await queue.run();
+    } finally {
+      this.batch = null;
+      this.statusBarEl.onclick = null;
+      this.statusBarEl.hide();
     }
 
-    const data = await res.json();
-    const text = data?.choices?.[0]?.message?.content?.trim?.();
-    if (!text) return null;
+    // Plugin unloading mid-run: keep the state file for resume
+    if (this.unloading) return;
+    await this.batchStore.clear();
+    new BatchReportModal(this.app, state, queue.isCancelled).open();
+  }
+
+  // === Audit (read-only: only the report note is written) ===
+  private auditReportPath() {
+    const path = normalizePath(this.settings.auditReportPath.trim() || DEFAULT_SETTINGS.auditReportPath);
+    return /\.md$/i.test(path) ? path : `${path}.md`;
+  }
 
+  private async runAudit() {
+    const reportPath = this.auditReportPath();
+    const notice = new Notice('Frontmatter audit: scanning notes…', 0);
+    const report = emptyAuditReport();
     try {
-      const parsed = JSON.parse(text);
-      return isObject(parsed) ? parsed : null;
-    } catch (e) {
-      console.error('JSON parse failed:', e, 'original:', text);
-      new Notice('Failed to parse AI JSON response');
-      return null;
-    }
-  }
-
-  // === frontmatter split/merge/compose ===
-  private splitFrontmatter(raw: string): { frontmatter: FrontmatterData | null; body: string } {
-    if (raw.startsWith('---')) {
-      const end = raw.indexOf('\n---', 3);
-      if (end !== -1) {
-        const yaml = raw.slice(3, end + 1).trim();
-        const body = raw.slice(end + 4).replace(/^\s*\n/, '');
-        const fmUnknown = safeLoadYaml(yaml);
-        const fm = isObject(fmUnknown) ? (fmUnknown as FrontmatterData) : null;
-        return { frontmatter: fm, body };
+      // Latest pre-run snapshot per note: the body as it was when the frontmatter was generated
+      const runs = new Map<string, HistoryEntry>();
+      for (const e of await this.history.list()) {
+        if (e.reason === 'run' && !runs.has(e.path)) runs.set(e.path, e);
+      }
+      for (const file of this.app.vault.getMarkdownFiles()) {
+        if (file.path === reportPath) continue;
+        report.scanned++;
+        try {
+          await this.auditNote(file, report, runs.get(file.path) ?? null);
+        } catch (e) {
+          console.error(`Audit failed (${file.path}):`, e);
+        }
+      }
+    } finally {
+      notice.hide();
+    }
+
+    const queueUrl = `obsidian://fm-audit-queue?vault=${encodeURIComponent(this.app.vault.getName())}` +
+      `&file=${encodeURIComponent(reportPath)}`;
+    const content = renderAuditReport(report, queueUrl);
+    let target = this.app.vault.getAbstractFileByPath(reportPath);
+    this.selfWrites.begin(reportPath);
+    try {
+      if (target instanceof TFile) {
+        await this.app.vault.modify(target, content);
+      } else {
+        const dir = reportPath.includes('/') ? reportPath.slice(0, reportPath.lastIndexOf('/')) : '';
+        if (dir && !this.app.vault.getAbstractFileByPath(dir)) await this.app.vault.createFolder(dir);
+        target = await this.app.vault.create(reportPath, content);
       }
+    } finally {
+      this.selfWrites.end(reportPath);
     }
-    return { frontmatter: null, body: raw };
+    if (target instanceof TFile) await this.app.workspace.getLeaf(false).openFile(target);
   }
 
-  async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+  private async auditNote(file: TFile, report: AuditReport, lastRun: HistoryEntry | null) {
+    const raw = await this.app.vault.cachedRead(file);
+    const problem = frontmatterProblem(raw);
+    if (problem) {
+      report.sections.frontmatter.push({ path: file.path, detail: problem });
+      return;
+    }
+
+    const { frontmatter, body } = splitFrontmatter(raw);
+    const { settings: s } = this.resolveSettings(file, frontmatter);
+    if (readLocks(frontmatter?.[s.lockKey]).all) return;   // locked notes are never regenerated
+    const fmTags = frontmatterTags(frontmatter?.tags);
+    const add = (section: keyof AuditReport['sections'], detail: string) => report.sections[section].push({ path: file.path, detail });
+
+    const noteSettings = settingsForBody(s, body);
+    const required = [
+      ...validSchemaFields(s.schemaFields).map(f => f.key),
+      ...localizedFields(noteSettings).filter(f => s.localizedFields.includes(f.base)).map(f => f.key),
+      ...(noteSettings.tagLangs.length ? ['tags'] : []),
+    ];
+    const missing = missingFields(frontmatter, required);
+    if (missing.length) add('missing', `no ${missing.join(', ')}`);
+
+    const inline = unmergedInlineTags(findInlineTags(body).map(m => formatExistingTag(m.tag)), fmTags);
+    if (inline.length) add('inline', inline.map(tagMention).join(', '));
+
+    let taxonomy: Taxonomy | null = null;
+    try {
+      taxonomy = await this.loadTaxonomy(s);
+    } catch {
+      // Reported by the runs themselves; audit the tags without it
+    }
+    const policy: TagFormatPolicy = { byLang: s.tagFormats, fallback: s.tagFormatDefault };
+    const exempt = new Set((taxonomy?.paths ?? []).map(p => p.toLowerCase()));
+    const badTags = fmTags
+      .map(t => ({ t, problem: tagFormatProblem(t, policy, s.tagLangs.map(l => l.code), exempt) }))
+      .filter(x => x.problem);
+    if (badTags.length) add('tags', badTags.map(x => `${tagMention(x.t)}: ${x.problem}`).join('; '));
+
+    // Changed since the last run: compare with the pre-run snapshot, else fall back to the edit date
+    if (!frontmatter?.fm_created && !frontmatter?.[CONTENT_HASH_KEY]) return;   // never run
+    const { body: nextBody } = extractInlineTags(body, s.inlineTagMode);
+    if (frontmatter?.[CONTENT_HASH_KEY] === contentHash(s, nextBody, taxonomy)) return;
+    const words = (text: string) => extractInlineTags(text, 'strip').body;
+    if (lastRun) {
+      let before: string | null = null;
+      try {
+        before = splitFrontmatter(await this.history.read(lastRun)).body;
+      } catch {
+        // Snapshot file missing: fall through to the date check
+      }
+      if (before !== null) {
+        const percent = Math.round(changeRatio(words(before), words(body)) * 100);
+        if (percent >= this.settings.auditChangedPercent) {
+          add('changed', `~${percent}% of the body changed since the run on ${formatYYYYMMDDLocal(lastRun.timestamp)}`);
+        }
+        return;
+      }
+    }
+    const created: unknown = frontmatter?.fm_created;   // YAML dates load as Date
+    const createdAt = created instanceof Date ? created.getTime() : typeof created === 'string' ? Date.parse(created) : NaN;
+    if (!Number.isNaN(createdAt) && file.stat.mtime >= createdAt + 86400000) {
+      add('changed', `edited ${formatYYYYMMDDLocal(file.stat.mtime)}, after fm_created ${formatYYYYMMDDLocal(createdAt)} (no snapshot to measure the change)`);
+    }
   }
-  async saveSettings() {
-    await this.saveData(this.settings);
+
+  /** Batch-run the notes listed under the regenerable sections of the report note */
+  private async queueAuditReport(path: string) {
+    const report = this.app.vault.getAbstractFileByPath(path);
+    if (!(report instanceof TFile)) {
+      new Notice(`No audit report at ${path}. Run "Frontmatter: audit vault" first.`);
+      return;
+    }
+    const files = parseQueuedLinks(await this.app.vault.read(report))
+      .map(link => this.app.metadataCache.getFirstLinkpathDest(link, report.path))
+      .filter((f): f is TFile => f instanceof TFile);
+    if (!files.length) {
+      new Notice('The audit report lists no notes to regenerate.');
+      return;
+    }
+    await this.startBatch('Audit report', files, true);
   }
-}
 
-/* =========================
-   Utils
-   ========================= */
+  // === Tag consolidation: group near-duplicate tags, review, rename across the vault ===
+  private async consolidateTags() {
+    this.vaultTagStats = null;   // always scan fresh
+    const stats = this.getVaultTagStats();
+    const counts = new Map(stats.map(x => [x.tag, x.count]));
+    const aliases = this.settings.tagAliases;
+
+    const askAI = async () => {
+      const top = [...stats].sort((a, b) => b.count - a.count).slice(0, CLUSTER_TAG_LIMIT).map(x => x.tag);
+      const obj = await this.callAIForObject(this.settings, 'json', buildClusterPrompt(top), '');
+      return groupSimilarTags(stats, aliases, parseClusterPairs(obj, new Set(counts.keys())));
+    };
 
-// Prepare body for LLM:
-function sanitizeBodyForLLM(
-  body: string,
-  maxChars = 40000,
-  collapseCodeBlocks = true
-) {
-  let s = body;
+    const accepted = await reviewTagMerges(this.app, groupSimilarTags(stats, aliases), {
+      counts,
+      askAI: this.settings.providers[this.settings.provider] ? askAI : null,
+    });
+    if (!accepted?.length) return;
+
+    const rename = tagRenamer(accepted);
+    let changed = 0;
+    const failed: string[] = [];
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      try {
+        if (await this.renameTagsInFile(file, rename)) changed++;
+      } catch (e) {
+        console.error(`Tag consolidation failed (${file.path}):`, e);
+        failed.push(file.path);
+      }
+    }
+    this.vaultTagStats = null;
+    new Notice(
+      `Merged ${accepted.length} tag group(s) in ${changed} note(s)` +
+      (failed.length ? `; ${failed.length} failed (see console).` : '.')
+    );
+  }
 
-  // - Remove image embeds: ![alt](url), ![[file.jpg]], <img ...>
-  s = s.replace(/!\[[^\]]*]\(\s*data:image\/[^)]+\)/gi, '');  // ![](data:image...)
-  s = s.replace(/<img[^>]+src\s*=\s*["']data:image\/[^"']+["'][^>]*>/gi, ''); // <img src="data:...">
+  // Returns true when the note was rewritten
+  private async renameTagsInFile(file: TFile, rename: (tag: string) => string | null): Promise<boolean> {
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (!cache) return false;
+    const fmTags = (g: Record<string, unknown> | undefined, key: string) =>
+      asArray(g?.[key]).flatMap(t => String(t ?? '').split(/[,\s]+/)).filter(Boolean);
+    const fmChanged = ['tags', 'tag'].some(k => fmTags(cache.frontmatter, k).some(t => rename(t) !== null));
+    const inlineChanged = (cache.tags ?? []).some(t => rename(t.tag) !== null);
+    if (!fmChanged && !inlineChanged) return false;
+
+    if (this.settings.historyEnabled) {
+      await this.history.record(file.path, await this.app.vault.read(file), { reason: 'tags' });
+    }
 
-  // - Remove data URI (very long)
-  s = s.replace(/!\[[^\]]*]\(\s*[^)]+\)/g, '');         // ![alt](http.../file.png)
-  s = s.replace(/!\[\[[^\]]+]]/g, '');                  // ![[file.png]]
-  s = s.replace(/<img[^>]*>/gi, '');                    // <img ...>
+    this.selfWrites.begin(file.path);
+    try {
+      if (fmChanged) {
+        await this.app.fileManager.processFrontMatter(file, (fm) => {
+          const g = fm as { [k: string]: unknown };
+          for (const key of ['tags', 'tag']) {
+            if (g[key] != null) g[key] = renameTagList(fmTags(g, key), rename);
+          }
+        });
+      }
+      // Inline tags: body only, with the same Markdown-aware scanner as the update run
+      if (inlineChanged) {
+        await this.app.vault.process(file, (content) => {
+          const end = content.startsWith('---') ? content.indexOf('\n---', 3) : -1;
+          const bodyStart = end === -1 ? 0 : end + 4;
+          return content.slice(0, bodyStart) + renameInlineTags(content.slice(bodyStart), rename);
+        });
+      }
+    } finally {
+      this.selfWrites.end(file.path);
+    }
+    return true;
+  }
 
-  // - Optionally collapse code blocks
-  if (collapseCodeBlocks) {
-    s = s.replace(/```[\s\S]*?```/g, '[code omitted]');
+  // === Automatic runs ===
+  private autoSettings(): AutoSettings {
+    const s = this.settings;
+    return {
+      onCreate: s.autoOnCreate,
+      onIdle: s.autoOnIdle,
+      idleSeconds: s.autoIdleSeconds,
+      moveIntoFolders: s.autoMoveIntoFolders,
+      include: s.autoInclude,
+      exclude: s.autoExclude,
+      requireTags: s.autoRequireTags,
+      skipTags: s.autoSkipTags,
+      minBodyLength: s.autoMinBodyLength,
+    };
   }
 
-  // - Apply length limit
-  if (s.length > maxChars) {
-    s = s.slice(0, maxChars) + '\n\n[... truncated for LLM ...]';
+  private async isAutoEligible(file: TFile): Promise<boolean> {
+    if (this.batch) return false;   // the batch run will get to it
+    const cache = this.app.metadataCache.getFileCache(file);
+    const tags = cache ? getAllTags(cache) ?? [] : [];
+    const { body } = splitFrontmatter(await this.app.vault.cachedRead(file));
+    const reason = ineligibleReason({ path: file.path, tags, bodyLength: body.trim().length }, this.autoSettings());
+    if (reason) console.debug(`Automatic frontmatter run skipped (${file.path}): ${reason}`);
+    return reason === null;
   }
 
-  return s;
-}
+  // === Profiles ===
+  /** Global settings with the overrides of the profile matching this note (if any) */
+  resolveSettings(file: TFile, frontmatter: Record<string, unknown> | null): ResolvedSettings {
+    const cache = this.app.metadataCache.getFileCache(file);
+    return resolveSettingsFor(this.settings, { path: file.path, tags: cache ? getAllTags(cache) ?? [] : [], frontmatter });
+  }
 
-/** Common tag string cleanup (apply language-specific rules, preserve case) */
-function cleanupBare(s: string) {
-  const base = String(s ?? '').trim().replace(/^#/, '');
-  const isKorean  = /[\uAC00-\uD7AF]/.test(base);
-  const isEnglish = /^[A-Za-z0-9 _/\-]+$/.test(base) && /[A-Za-z]/.test(base);
+  // === History restore ===
+  // keepCurrent: snapshot the current content first (history view) instead of consuming the entry (undo)
+  private async restoreSnapshot(entry: HistoryEntry, opts: { keepCurrent: boolean }) {
+    const file = this.app.vault.getAbstractFileByPath(entry.path);
+    if (!(file instanceof TFile)) {
+      new Notice(`Cannot restore: ${entry.path} no longer exists.`);
+      return;
+    }
 
-  if (isKorean || isEnglish) {
-    // ko/en: concatenate words (remove all separators, keep case)
-    return base.replace(/[ _/\-]+/g, '');
+    const content = await this.history.read(entry);
+    if (opts.keepCurrent) {
+      await this.history.record(file.path, await this.app.vault.read(file), { reason: 'restore' });
+    }
+    this.selfWrites.begin(file.path);
+    try {
+      await this.app.vault.modify(file, content);
+    } finally {
+      this.selfWrites.end(file.path);
+    }
+    if (!opts.keepCurrent) await this.history.remove(entry);
+    new Notice(`Restored ${file.path} to ${new Date(entry.timestamp).toLocaleString()}`);
   }
 
-  // Others: keep hyphen style
-  return base
-    .replace(/[ _/]+/g, '-')
-    .replace(/-{2,}/g, '-')
-    .replace(/^-+|-+$/g, '');
-}
+  // force: run even if the note is unchanged and bypass the response cache
+  // rerun: run even if the note is unchanged, but keep using the response cache
+  async updateFrontmatterForFile(
+    file: TFile,
+    opts: { quiet?: boolean; review?: boolean; force?: boolean; rerun?: boolean } = {}
+  ) {
+    // 1) Read raw file and split into frontmatter/body (FM is only used as reference for prompt)
+    const raw = await this.app.vault.read(file);
+    const { frontmatter, body } = splitFrontmatter(raw);
 
-/** Key for duplicate detection (case-insensitive) */
-function tagKey(s: string) {
-  return cleanupBare(s).toLowerCase();
-}
+    // Settings for this note: global settings + the matching profile's overrides
+    const { settings: s, profile, problems } = this.resolveSettings(file, frontmatter);
+    if (problems.length) console.warn(`Profile "${profile?.profile.name}" has invalid overrides:`, problems);
 
-function toPascalCaseEnglish(base: string) {
-  // Convert English-like tokens to PascalCase for AI-generated tags when desired.
-  const splitTokens = base.split(/[ _/\-]+/).filter(Boolean);
-  const tokens = splitTokens.length > 0 ? splitTokens : [base];
-
-  return tokens
-    .map(tok => {
-      if (/^[A-Z0-9]+$/.test(tok)) return tok;
-      if (/^\d/.test(tok)) return tok;
-      if (/[A-Z].*[a-z]|[a-z].*[A-Z]/.test(tok)) {
-        return tok.charAt(0).toUpperCase() + tok.slice(1);
+    // 2-6) Inline tags, change detection, generation and tag merge (shared with the CLI)
+    const stat = file.stat;
+    const plan = await planNoteUpdate(s, {
+      path: file.path,
+      frontmatter,
+      body,
+      createdAt: stat?.ctime ?? stat?.mtime ?? Date.now(),
+    }, this.host, opts);
+    if ('skipped' in plan) {
+      if (!opts.quiet) {
+        new Notice(plan.skipped === 'locked'
+          ? `Skipped (locked by ${s.lockKey}): ${file.path}`
+          : `Unchanged since the last run, skipped: ${file.path}`);
       }
-      return tok.charAt(0).toUpperCase() + tok.slice(1).toLowerCase();
-    })
-    .join('');
-}
+      return;
+    }
+
+    // 7) Optional review: only accepted fields are written
+    const reviewed = opts.review ?? s.reviewBeforeWrite;
+    let accepted: Record<string, unknown>;
+    let applyBody = plan.bodyTagMode !== null;
+    if (reviewed) {
+      const decision = await reviewProposal(this.app, {
+        path: file.path,
+        fields: plan.fields.filter(f => JSON.stringify(f.oldValue ?? null) !== JSON.stringify(f.newValue ?? null)),
+        inlineTagChange: plan.bodyTagMode && plan.inlineTags.length ? { mode: plan.bodyTagMode, tags: plan.inlineTags } : null,
+      });
+      if (!decision) throw new Error(`Frontmatter update cancelled: ${file.path}`);
+      accepted = { ...decision.fields };
+      applyBody = applyBody && decision.applyBody;
 
-function formatAiTag(s: string) {
-  // Korean tags are concatenated; English tags are PascalCased; others use hyphens.
-  const base = String(s ?? '').trim().replace(/^#/, '');
-  const isKorean  = /[\uAC00-\uD7AF]/.test(base);
-  const isEnglish = /^[A-Za-z0-9 _/\-]+$/.test(base) && /[A-Za-z]/.test(base);
+      // Edited values come back as text; convert them to the field's type
+      for (const key of coerceAccepted(s, accepted)) {
+        new Notice(`Edited value for "${key}" is not a valid ${s.schemaFields.find(f => f.key === key)?.type}; field skipped.`);
+      }
+    } else {
+      accepted = acceptAll(plan);
+    }
 
-  if (isKorean) {
-    return base.replace(/[ _/\-]+/g, '');
+    // Snapshot the current content so this run can be undone
+    let snapshot: HistoryEntry | null = null;
+    if (s.historyEnabled) {
+      const providerConfig = s.providers[s.provider];
+      snapshot = await this.history.record(file.path, await this.app.vault.read(file), plan.prompt === null ? { provider: 'local' } : {
+        provider: providerConfig?.id,
+        model: providerConfig?.model,
+        promptHash: hashString(plan.prompt),
+      });
+    }
+
+    // Our own writes must not retrigger automatic runs
+    this.selfWrites.begin(file.path);
+    try {
+      // 8) FRONTMATTER FIRST: update FM atomically
+      await this.app.fileManager.processFrontMatter(file, (fm) => {
+        applyFields(fm as { [k: string]: unknown }, plan, accepted, reviewed);
+      });
+
+      // 9) BODY SECOND: span edits on the current text (only the tag spans change; FM text untouched)
+      const mode = plan.bodyTagMode;
+      const active = this.app.workspace.activeEditor?.editor;
+      const activeFile = this.app.workspace.getActiveFile();
+      const inEditor = !!active && activeFile?.path === file.path;
+      if (applyBody && mode) {
+        if (active && inEditor) {
+          // One transaction: a single undo step, cursor and scroll kept
+          const edits = bodyTagEdits(active.getValue(), mode);
+          if (edits.length) {
+            active.transaction({
+              changes: edits.map(e => ({ from: active.offsetToPos(e.from), to: active.offsetToPos(e.to), text: e.text })),
+            });
+          }
+        } else {
+          await this.app.vault.process(file, text => applyEdits(text, bodyTagEdits(text, mode)));   // atomic background update
+        }
+      }
+
+      // What undo compares against (the open editor may not be saved yet)
+      if (snapshot) await this.history.setResult(snapshot, hashString(active && inEditor ? active.getValue() : await this.app.vault.read(file)));
+    } finally {
+      this.selfWrites.end(file.path);
+    }
+
+    if (!opts.quiet) new Notice(`Frontmatter updated: ${file.path}`);
   }
-  if (isEnglish) {
-    return toPascalCaseEnglish(base);
+
+
+
+  // === Vault corpus for local TF-IDF and related notes (only notes changed since the stored index are re-read) ===
+  private async corpusIndex(): Promise<CorpusIndex> {
+    const files = this.app.vault.getMarkdownFiles();
+    return this.corpus.refreshed(files.map(f => ({ path: f.path, mtime: f.stat.mtime })), async path => {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (!(file instanceof TFile)) return { body: '', tags: [] };
+      const { frontmatter, body } = splitFrontmatter(await this.app.vault.cachedRead(file));
+      return {
+        body: sanitizeBodyForLLM(body, Number.POSITIVE_INFINITY, true),
+        tags: [...frontmatterTags(frontmatter?.tags), ...findInlineTags(body).map(m => m.tag)],
+      };
+    });
   }
 
-  return base
-    .replace(/[ _/]+/g, '-')
-    .replace(/-{2,}/g, '-')
-    .replace(/^-+|-+$/g, '');
-}
+  private async corpusStats(): Promise<CorpusStats> {
+    return (await this.corpusIndex()).stats();
+  }
 
-function formatExistingTag(s: string) {
-  // Conservative cleanup for user/existing tags
-  return cleanupBare(s);
-}
+  private async relatedNotes(path: string, body: string, tags: string[], max: number): Promise<string[]> {
+    const similar = (await this.corpusIndex()).similar(path, body, tags, max);
+    return similar.flatMap(({ path: other }) => {
+      const file = this.app.vault.getAbstractFileByPath(other);
+      return file instanceof TFile ? [this.app.metadataCache.fileToLinktext(file, path, true)] : [];
+    });
+  }
 
-function formatYYYYMMDDLocal(ts: number | Date) {
-  const d = ts instanceof Date ? ts : new Date(ts);
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, '0');
-  const day = String(d.getDate()).padStart(2, '0');
-  return `${y}-${m}-${day}`;
-}
+  // Outgoing links, then backlinks (Markdown notes only), with their title, summary and tags
+  private linkedNotes(path: string): LinkedNote[] {
+    const resolved = this.app.metadataCache.resolvedLinks;
+    const describe = (other: string, direction: LinkedNote['direction']): LinkedNote => {
+      const file = this.app.vault.getAbstractFileByPath(other);
+      const fm = file instanceof TFile ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+      return {
+        path: other,
+        direction,
+        title: typeof fm?.title === 'string' ? fm.title : null,
+        summary: typeof fm?.summary === 'string' ? fm.summary : null,
+        tags: frontmatterTags(fm?.tags),
+      };
+    };
+    const outgoing = Object.keys(resolved[path] ?? {}).filter(p => p !== path && p.endsWith('.md'));
+    const incoming = Object.keys(resolved).filter(p => p !== path && !outgoing.includes(p) && resolved[p][path]);
+    return [...outgoing.map(p => describe(p, 'out')), ...incoming.map(p => describe(p, 'in'))];
+  }
 
-function safeLoadYaml(y: string): unknown {
-  try { return YAML.load(y); } catch { return null; }
-}
+  /** Prompt for the active note as it would be sent (single-call form; long notes are not condensed here) */
+  async previewPrompt(file: TFile): Promise<string> {
+    const { frontmatter, body } = splitFrontmatter(await this.app.vault.cachedRead(file));
+    const { settings } = this.resolveSettings(file, frontmatter);
+    const { body: nextBody } = extractInlineTags(body, settings.inlineTagMode);
+    const taxonomy = await this.loadTaxonomy(settings);
+    return buildPrompt(settingsForBody(settings, nextBody), { path: file.path, body: nextBody, existingFM: frontmatter, taxonomy }, this.host);
+  }
 
-function stripCodeFences(s: string) {
-  return s.replace(/^```[a-zA-Z]*\n?/, '').replace(/\n?```$/, '');
-}
+  // === Vault tag vocabulary (cached briefly; batch runs would otherwise rescan per note) ===
+  private vaultTagStats: { at: number; stats: TagStat[] } | null = null;
 
-function asArray(v: unknown): unknown[] {
-  if (Array.isArray(v)) return v;
-  if (v == null) return [];
-  return [v];
-}
+  private getVaultTagStats(): TagStat[] {
+    if (this.vaultTagStats && Date.now() - this.vaultTagStats.at < 60000) return this.vaultTagStats.stats;
 
-function uniqArray<T>(arr: T[]): T[] {
-  return Array.from(new Set(arr));
-}
+    const counts = new Map<string, number>();
+    for (const f of this.app.vault.getMarkdownFiles()) {
+      const cache = this.app.metadataCache.getFileCache(f);
+      if (!cache) continue;
+      for (const t of new Set(getAllTags(cache) ?? [])) {
+        const tag = t.replace(/^#/, '');
+        counts.set(tag, (counts.get(tag) ?? 0) + 1);
+      }
+    }
+    const stats = Array.from(counts, ([tag, count]) => ({ tag, count }));
+    this.vaultTagStats = { at: Date.now(), stats };
+    return stats;
+  }
 
+  // === Taxonomy (cached until the file changes) ===
+  private taxonomyCache: { path: string; mtime: number; tree: Taxonomy } | null = null;
 
-function cleanupAfterTagRemoval(s: string) {
-  s = s.replace(/[\u200B-\u200D\uFEFF]/g, '');
-  s = s.replace(/[ \t]+$/gm, '');
-  s = s.replace(/\n{3,}/g, '\n\n');
-  s = s.replace(/\s+$/g, '');
-  return s;
-}
+  /** Taxonomy configured for these settings, or null when none is set */
+  async loadTaxonomy(s: FMSettings): Promise<Taxonomy | null> {
+    const path = s.taxonomyPath.trim();
+    if (!path) return null;
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) throw new Error(`Taxonomy file not found: ${path}`);
+
+    const cached = this.taxonomyCache;
+    if (cached && cached.path === path && cached.mtime === file.stat.mtime) return cached.tree;
+    let tree: Taxonomy;
+    try {
+      tree = parseTaxonomy(await this.app.vault.cachedRead(file), taxonomyFormatFor(path));
+    } catch (e) {
+      throw new Error(`Could not read taxonomy ${path}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (!tree.paths.length) throw new Error(`Taxonomy ${path} has no entries`);
+    this.taxonomyCache = { path, mtime: file.stat.mtime, tree };
+    return tree;
+  }
+
+  // === Provider call: JSON or YAML object (path: the note the call is billed to in the usage log) ===
+  private async callAIForObject(
+    s: FMSettings,
+    format: ResponseFormat,
+    prompt: string,
+    path: string,
+    force = false
+  ): Promise<Record<string, unknown> | null> {
+    const config = s.providers[s.provider];
+    if (!config) {
+      throw new Error('No AI provider selected. Please choose one in plugin settings.');
+    }
+    if (getPreset(config.id)?.requiresKey && !config.apiKey) {
+      throw new Error('API key not set. Please enter it in plugin settings.');
+    }
+
+    // Identical prompt to the same model → reuse the stored answer (force skips the lookup, still refreshes it)
+    const useCache = s.responseCacheEnabled;
+    const cacheKey = hashString(JSON.stringify([config.id, config.baseUrl, config.model, config.jsonMode, format, prompt]));
+    if (useCache && !force) {
+      const hit = await this.responseCache.get(cacheKey);
+      if (hit) return hit;
+    }
+
+    // Cached answers are free; only real calls count against the budget
+    await this.usage.checkBudget(this.budget());
+
+    const label = RESPONSE_FORMAT_LABELS[format];
+    const http = withRetries(s.httpTransport === 'fetch' ? fetchHttpClient : obsidianHttpClient, {
+      timeoutMs: Math.max(0, s.requestTimeoutSeconds) * 1000,
+      retries: s.requestRetries,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS,
+    });
+    const provider = createProvider(config, http);
+    const controller = new AbortController();
+    this.inflight.add(controller);
+    let text: string;
+    let usage: TokenUsage | null;
+    try {
+      ({ text, usage } = await provider.complete({
+        system: systemPromptFor(format),
+        prompt,
+        temperature: 0.2,
+        json: format === 'json',
+        signal: controller.signal,
+      }));
+    } catch (e) {
+      if (e instanceof ProviderError) {
+        console.error(`AI call failed (${e.provider}/${label}):`, e.status, e.body);
+        throw e;
+      }
+      if (e instanceof RequestAbortedError && e.reason === 'cancelled') throw e;
+      console.error(`AI call failed (${provider.label}/${label}):`, e);
+      const hint = e instanceof NetworkError && s.httpTransport === 'fetch' ? ' (if the server lacks CORS headers, switch the transport to Obsidian)' : '';
+      throw new Error(`AI call failed (${provider.label}): ${e instanceof Error ? e.message : String(e)}${hint}`);
+    } finally {
+      this.inflight.delete(controller);
+    }
 
-function extractInlineTagsAndStrip(text: string) {
-  // Find inline tags and strip them from body.
-  const found: string[] = [];
+    // Endpoints that report no usage (some local servers) are estimated from the text
+    const counts = usage ?? { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(text) };
+    const price = priceFor(s.modelPrices, config.model);
+    await this.usage.record({
+      at: Date.now(),
+      path,
+      provider: config.id,
+      model: config.model,
+      ...counts,
+      cost: price ? costOf(counts.promptTokens, counts.completionTokens, price) : null,
+      estimated: !usage,
+    });
 
-  // Lookbehind-free regex; capture prefix in group1 and tag body in group2
-  const TAG_REGEX =
-    /(^|[\s(\[{:])#(?!#|\s)((?=[A-Za-z0-9_\-\/\uAC00-\uD7AF]*[A-Za-z\uAC00-\uD7AF])[A-Za-z0-9_\-\/\uAC00-\uD7AF]+)(?=$|[\s,.;:!?)}\]])/gu;
+    const parsed = parseAIAnswer(text, format);
+    if (!parsed) return null;
+    if (useCache) await this.responseCache.set(cacheKey, parsed);
+    return parsed;
+  }
 
-  let s = text.replace(TAG_REGEX, (_full, prefix: string, tag: string) => {
-    const norm = formatExistingTag(tag);
-    if (norm) found.push(norm);
-    return prefix ?? '';
-  });
+  async loadSettings() {
+    this.settings = normalizeSettings(await this.loadData());
+  }
+  async saveSettings() {
+    await this.saveData(this.settings);
+  }
+}
+
+/* =========================
+   Utils
+   ========================= */
 
-  s = cleanupAfterTagRemoval(s);
+// Markdown files in the given selection (folders are expanded recursively)
+function collectMarkdownFiles(items: TAbstractFile[]): TFile[] {
+  const out = new Map<string, TFile>();
+  const walk = (f: TAbstractFile) => {
+    if (f instanceof TFile) {
+      if (f.extension === 'md') out.set(f.path, f);
+    } else if (f instanceof TFolder) {
+      for (const child of f.children) walk(child);
+    }
+  };
+  items.forEach(walk);
+  return Array.from(out.values());
+}
 
-  const unique = Array.from(new Set(found.map(t => t)));
-  return { inlineTags: unique, strippedBody: s };
+function uniqArray<T>(arr: T[]): T[] {
+  return Array.from(new Set(arr));
 }
 
+
 /* =========================
    Settings UI
    ========================= */
@@ -540,18 +1054,83 @@ class FMSettingTab extends PluginSettingTab {
     const { containerEl } = this;
     containerEl.empty();
 
+    // Numeric text input bound to a number-valued setting
+    type NumericKey = { [K in keyof FMSettings]: FMSettings[K] extends number ? K : never }[keyof FMSettings];
+    const numberSetting = (name: string, desc: string, key: NumericKey, min: number, fractional = false) => {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addText(t => {
+          t.setValue(String(this.plugin.settings[key]));
+          (t.inputEl as HTMLInputElement).type = 'number';
+          (t.inputEl as HTMLInputElement).min = String(min);
+          if (fractional) (t.inputEl as HTMLInputElement).step = 'any';
+          t.onChange(async v => {
+            const n = fractional ? parseFloat(v) : parseInt(v, 10);
+            if (!Number.isFinite(n) || n < min) return;
+            this.plugin.settings[key] = n;
+            await this.plugin.saveSettings();
+          });
+        });
+    };
+
+    new Setting(containerEl).setName('Engine').setHeading();
+
+    new Setting(containerEl)
+      .setName('Engine')
+      .setDesc('The local engine needs no API: title from the first heading or the file name, an extractive summary and keyword tags. As a fallback it runs when the AI call fails (not when you cancel).')
+      .addDropdown(d => {
+        for (const [k, label] of Object.entries(ENGINE_MODE_LABELS)) d.addOption(k, label);
+        d.setValue(this.plugin.settings.engine)
+          .onChange(async v => { this.plugin.settings.engine = v as EngineMode; await this.plugin.saveSettings(); });
+      });
+    new Setting(containerEl)
+      .setName('Local tags')
+      .setDesc('TF-IDF picks words frequent in the note but rare in the vault; RAKE picks short key phrases from the note alone. Stopwords are removed per tag language; Latin-script languages only get tags in the note\'s own language.')
+      .addDropdown(d => {
+        for (const [k, label] of Object.entries(KEYWORD_METHOD_LABELS)) d.addOption(k, label);
+        d.setValue(this.plugin.settings.localKeywordMethod)
+          .onChange(async v => { this.plugin.settings.localKeywordMethod = v as KeywordMethod; await this.plugin.saveSettings(); });
+      });
+    new Setting(containerEl)
+      .setName('Local summary')
+      .setDesc('Up to three sentences, within the summary field\'s maximum length')
+      .addDropdown(d => {
+        for (const [k, label] of Object.entries(SUMMARY_METHOD_LABELS)) d.addOption(k, label);
+        d.setValue(this.plugin.settings.localSummary)
+          .onChange(async v => { this.plugin.settings.localSummary = v as SummaryMethod; await this.plugin.saveSettings(); });
+      });
+
     new Setting(containerEl).setName('API').setHeading();
 
+    // Provider
+    new Setting(containerEl)
+      .setName('Provider')
+      .setDesc('API family used for generation. Each provider keeps its own base URL, key, headers and models.')
+      .addDropdown(d => {
+        for (const p of PROVIDER_PRESETS) d.addOption(p.id, p.label);
+        d.setValue(this.plugin.settings.provider);
+        d.onChange(async v => {
+          this.plugin.settings.provider = v;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    const provider = this.plugin.settings.providers[this.plugin.settings.provider];
+    const preset = getPreset(provider.id);
+    const defaultBase = preset?.baseUrl ?? provider.baseUrl;
+
     // API Base
     {
       const row = new Setting(containerEl)
         .setName('API base')
-        .setDesc('OpenAI-compatible endpoint (default: https://api.openai.com/v1)');
+        .setDesc(`Endpoint for ${preset?.label ?? provider.id} (default: ${defaultBase})`);
 
       let apiText: import('obsidian').TextComponent;
       row.addText(t => {
         apiText = t;
-        t.setValue(this.plugin.settings.apiBase);
+        t.setValue(provider.baseUrl);
         t.setDisabled(true);
       });
 
@@ -559,9 +1138,9 @@ class FMSettingTab extends PluginSettingTab {
         b.setButtonText('Reset to default')
           .setCta()
           .onClick(async () => {
-            this.plugin.settings.apiBase = 'https://api.openai.com/v1';
+            provider.baseUrl = defaultBase;
             await this.plugin.saveSettings();
-            apiText.setValue(this.plugin.settings.apiBase);
+            apiText.setValue(provider.baseUrl);
             new Notice('API Base set to default.');
           });
       });
@@ -569,12 +1148,12 @@ class FMSettingTab extends PluginSettingTab {
       row.addButton(b => {
         b.setButtonText('Enter manually…')
           .onClick(async () => {
-            const cur = this.plugin.settings.apiBase || 'https://api.openai.com/v1';
+            const cur = provider.baseUrl || defaultBase;
             const url = window.prompt('Enter API Base URL', cur);
             if (url && url.trim()) {
-              this.plugin.settings.apiBase = url.trim();
+              provider.baseUrl = url.trim();
               await this.plugin.saveSettings();
-              apiText.setValue(this.plugin.settings.apiBase);
+              apiText.setValue(provider.baseUrl);
               new Notice('API Base updated.');
             }
           });
@@ -584,22 +1163,61 @@ class FMSettingTab extends PluginSettingTab {
     // API Key
     new Setting(containerEl)
       .setName('API key')
-      .setDesc('OpenAI-compatible key (Bearer)')
+      .setDesc(preset?.requiresKey ? 'Key for this provider' : 'Optional for local servers (sent as Bearer token if set)')
       .addText(t => t
-        .setPlaceholder('sk-...')
-        .setValue(this.plugin.settings.apiKey)
-        .onChange(async v => { this.plugin.settings.apiKey = v; await this.plugin.saveSettings(); }));
+        .setPlaceholder(provider.kind === 'openai' ? 'sk-...' : '')
+        .setValue(provider.apiKey)
+        .onChange(async v => { provider.apiKey = v; await this.plugin.saveSettings(); }));
+
+    // Extra headers
+    new Setting(containerEl)
+      .setName('Extra headers')
+      .setDesc('One "Name: value" per line (e.g., OpenAI-Organization, proxy auth)')
+      .addTextArea(t => t
+        .setPlaceholder('Header-Name: value')
+        .setValue(Object.entries(provider.headers).map(([k, v]) => `${k}: ${v}`).join('\n'))
+        .onChange(async v => {
+          const headers: Record<string, string> = {};
+          for (const line of v.split('\n')) {
+            const i = line.indexOf(':');
+            if (i > 0) headers[line.slice(0, i).trim()] = line.slice(i + 1).trim();
+          }
+          provider.headers = headers;
+          await this.plugin.saveSettings();
+        }));
+
+    // JSON mode
+    new Setting(containerEl)
+      .setName('JSON mode')
+      .setDesc('Native uses the API\'s JSON mode; prompt-only is for endpoints that reject it')
+      .addDropdown(d => d
+        .addOption('native', 'Native')
+        .addOption('prompt', 'Prompt only')
+        .setValue(provider.jsonMode)
+        .onChange(async v => { provider.jsonMode = v as JsonMode; await this.plugin.saveSettings(); }));
+
+    // Model list
+    new Setting(containerEl)
+      .setName('Models')
+      .setDesc('Models offered in the dropdown below, one per line')
+      .addTextArea(t => t
+        .setValue(provider.models.join('\n'))
+        .onChange(async v => {
+          provider.models = v.split('\n').map(x => x.trim()).filter(Boolean);
+          await this.plugin.saveSettings();
+        }));
 
     // Model
     new Setting(containerEl)
       .setName('Model')
-      .setDesc('Choose OpenAI-compatible model')
+      .setDesc('Choose a model for this provider')
       .addDropdown(drop => {
-        const presets = ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-3.5-turbo'];
+        const presets = provider.models;
+        const fallback = presets[0] ?? '';
         for (const m of presets) drop.addOption(m, m);
         drop.addOption('custom', 'Enter custom…');
 
-        const cur = (this.plugin.settings.model || '').trim();
+        const cur = (provider.model || '').trim();
 
         // Access internal selectEl without 'any'
         const selectEl = (drop as unknown as { selectEl: HTMLSelectElement }).selectEl;
@@ -610,40 +1228,59 @@ class FMSettingTab extends PluginSettingTab {
           drop.setValue(cur);
         } else if (cur) {
           drop.setValue(cur);
-        } else {
-          const fallback = 'gpt-4o-mini';
+        } else if (fallback) {
           drop.setValue(fallback);
-          this.plugin.settings.model = fallback;
+          provider.model = fallback;
           this.plugin.saveSettings();
         }
 
         drop.onChange(async (v) => {
           if (v === 'custom') {
-            const name = window.prompt('Enter model name', this.plugin.settings.model || 'gpt-4o-mini');
+            const name = window.prompt('Enter model name', provider.model || fallback);
             if (name && name.trim()) {
               const val = name.trim();
-              this.plugin.settings.model = val;
+              provider.model = val;
               const selectEl2 = (drop as unknown as { selectEl: HTMLSelectElement }).selectEl;
               const valuesNow = Array.from(selectEl2.options).map((o) => o.value);
               if (!valuesNow.includes(val)) drop.addOption(val, `(current) ${val}`);
               drop.setValue(val);
               await this.plugin.saveSettings();
             } else {
-              drop.setValue(this.plugin.settings.model || 'gpt-4o-mini');
+              drop.setValue(provider.model || fallback);
             }
           } else {
-            this.plugin.settings.model = v;
+            provider.model = v;
             await this.plugin.saveSettings();
           }
         });
       });
 
+    new Setting(containerEl).setName('Network').setHeading();
+
+    new Setting(containerEl)
+      .setName('Transport')
+      .setDesc('Obsidian\'s request API is not subject to browser CORS rules, so self-hosted servers work without CORS headers. Browser fetch aborts cancelled requests at once.')
+      .addDropdown(d => {
+        for (const [k, label] of Object.entries(HTTP_TRANSPORT_LABELS)) d.addOption(k, label);
+        d.setValue(this.plugin.settings.httpTransport)
+          .onChange(async v => { this.plugin.settings.httpTransport = v as HttpTransport; await this.plugin.saveSettings(); });
+      });
+    numberSetting('Request timeout (seconds)', 'Per attempt; slow local models may need more (0 = no timeout)', 'requestTimeoutSeconds', 0);
+    numberSetting('Retries', 'Extra attempts after timeouts, network errors, rate limits (429) and server errors (5xx), with exponential backoff honoring Retry-After', 'requestRetries', 0);
+
+    this.displaySchema(containerEl);
+    this.displayPrompt(containerEl);
+
     new Setting(containerEl).setName('Tags language').setHeading();
 
+    const formats = (): TagFormatPolicy => ({
+      byLang: this.plugin.settings.tagFormats,
+      fallback: this.plugin.settings.tagFormatDefault,
+    });
 
     for (const entry of this.plugin.settings.tagLangs) {
       const label = TAG_LANG_LABELS[entry.code] ?? entry.code;
-      const row = new Setting(containerEl).setName(label).setDesc('Maximum number of tags for this language');
+      const row = new Setting(containerEl).setName(label).setDesc('Maximum number of tags, which notes the language applies to, and its tag format');
 
       row.addText(t => {
         t.setPlaceholder('5').setValue(String(entry.max));
@@ -656,6 +1293,23 @@ class FMSettingTab extends PluginSettingTab {
         });
       });
 
+      row.addDropdown(d => {
+        for (const [value, whenLabel] of Object.entries(TAG_LANG_WHEN_LABELS)) d.addOption(value, whenLabel);
+        d.setValue(entry.when ?? 'always').onChange(async v => {
+          entry.when = v as TagLangWhen;
+          await this.plugin.saveSettings();
+        });
+      });
+
+      row.addDropdown(d => {
+        for (const [value, caseLabel] of Object.entries(TAG_CASE_LABELS)) d.addOption(value, caseLabel);
+        d.setValue(tagCaseFor(formats(), entry.code)).onChange(async v => {
+          this.plugin.settings.tagFormats[entry.code] = v as TagCase;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
       if (entry.code !== 'en') {
         row.addExtraButton(btn => {
           btn.setIcon('trash')
@@ -698,5 +1352,651 @@ class FMSettingTab extends PluginSettingTab {
           }
         });
       });
+
+    new Setting(containerEl)
+      .setName('Default tag format')
+      .setDesc('For languages without their own format. Existing and inline tags keep their spelling.')
+      .addDropdown(d => {
+        for (const [value, caseLabel] of Object.entries(TAG_CASE_LABELS)) d.addOption(value, caseLabel);
+        d.setValue(this.plugin.settings.tagFormatDefault).onChange(async v => {
+          this.plugin.settings.tagFormatDefault = v as TagCase;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Localized fields')
+      .setDesc('Comma-separated text fields also written in each tag language above, e.g. summary → summary_en, summary_ko')
+      .addText(t => t
+        .setPlaceholder('summary, title')
+        .setValue(this.plugin.settings.localizedFields.join(', '))
+        .onChange(async v => {
+          this.plugin.settings.localizedFields = v.split(',').map(x => x.trim()).filter(Boolean);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Translated aliases')
+      .setDesc('Add the title in each tag language to aliases, so the note is found by its name in every language')
+      .addToggle(t => t
+        .setValue(this.plugin.settings.translatedAliases)
+        .onChange(async v => { this.plugin.settings.translatedAliases = v; await this.plugin.saveSettings(); }));
+
+    // Preview: sample AI tags per language → formatted tag → duplicate key
+    const preview = containerEl.createEl('table', { cls: 'setting-item-description' });
+    const head = preview.createEl('tr');
+    for (const h of ['Language', 'AI tag', 'Written as', 'Duplicate key']) head.createEl('th', { text: h });
+    for (const { code } of this.plugin.settings.tagLangs) {
+      for (const sample of TAG_FORMAT_SAMPLES[code] ?? []) {
+        const tr = preview.createEl('tr');
+        tr.createEl('td', { text: TAG_LANG_LABELS[code] ?? code });
+        tr.createEl('td', { text: sample });
+        tr.createEl('td', { text: `#${formatTag(sample, tagCaseFor(formats(), code))}` });
+        tr.createEl('td', { text: tagKey(sample) });
+      }
+    }
+
+    new Setting(containerEl).setName('Tag vocabulary').setHeading();
+
+    new Setting(containerEl)
+      .setName('Existing vault tags')
+      .setDesc('Free: AI tags as generated. Prefer existing: show vault tags in the prompt and map close matches onto them. Only existing: drop AI tags that match no vault tag.')
+      .addDropdown(d => d
+        .addOption('free', 'Free')
+        .addOption('prefer', 'Prefer existing')
+        .addOption('existing', 'Only existing')
+        .setValue(this.plugin.settings.tagVocabularyMode)
+        .onChange(async v => { this.plugin.settings.tagVocabularyMode = v as VocabularyMode; await this.plugin.saveSettings(); }));
+
+    numberSetting('Vault tags in prompt', 'How many existing tags (ranked by frequency and relevance) are listed in the prompt', 'vocabularyPromptLimit', 0);
+
+    new Setting(containerEl)
+      .setName('Tag aliases')
+      .setDesc('One "canonical: alias1, alias2" per line. AI tags matching an alias are rewritten to the canonical tag.')
+      .addTextArea(t => t
+        .setPlaceholder('MachineLearning: ml, machine-learning, 머신러닝')
+        .setValue(formatAliasTable(this.plugin.settings.tagAliases))
+        .onChange(async v => {
+          this.plugin.settings.tagAliases = parseAliasTable(v);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl).setName('Taxonomy').setHeading();
+
+    const taxonomySetting = new Setting(containerEl)
+      .setName('Taxonomy file')
+      .setDesc('Note with a nested bullet list (or lines like area/health/sleep), or a .yaml file with nested keys. The AI places each note in this tree and returns full nested tags. Empty = off.')
+      .addText(t => t
+        .setPlaceholder('Meta/Taxonomy.md')
+        .setValue(this.plugin.settings.taxonomyPath)
+        .onChange(async v => {
+          this.plugin.settings.taxonomyPath = v.trim();
+          await this.plugin.saveSettings();
+          showTaxonomyStatus();
+        }));
+    const taxonomyStatus = taxonomySetting.descEl.createDiv();
+    const showTaxonomyStatus = () => {
+      this.plugin.loadTaxonomy(this.plugin.settings).then(
+        tree => taxonomyStatus.setText(tree ? `Loaded ${tree.paths.length} paths.` : ''),
+        e => taxonomyStatus.setText(`⚠ ${e instanceof Error ? e.message : String(e)}`)
+      );
+    };
+    showTaxonomyStatus();
+
+    numberSetting('Taxonomy tags per note', 'Maximum number of nested tag paths picked from the taxonomy', 'taxonomyMax', 1);
+
+    new Setting(containerEl)
+      .setName('Add ancestor tags')
+      .setDesc('Also add area and area/health for area/health/sleep')
+      .addToggle(t => t
+        .setValue(this.plugin.settings.taxonomyAncestors)
+        .onChange(async v => { this.plugin.settings.taxonomyAncestors = v; await this.plugin.saveSettings(); }));
+
+    new Setting(containerEl).setName('Related notes').setHeading();
+
+    new Setting(containerEl)
+      .setName('Related notes field')
+      .setDesc('Frontmatter key filled with [[links]] to the most similar notes: shared words (TF-IDF over the vault, computed locally) and shared tags. Empty = off.')
+      .addText(t => t
+        .setPlaceholder('related')
+        .setValue(this.plugin.settings.relatedKey)
+        .onChange(async v => { this.plugin.settings.relatedKey = v.trim(); await this.plugin.saveSettings(); }));
+
+    numberSetting('Related notes per note', 'Maximum number of links in the related notes field', 'relatedMax', 1);
+
+    new Setting(containerEl)
+      .setName('Link context in the prompt')
+      .setDesc(`Send the title, summary and tags of up to ${LINK_CONTEXT_MAX} linked notes and backlinks with each note, so tags stay consistent across notes that belong together`)
+      .addToggle(t => t
+        .setValue(this.plugin.settings.linkContext)
+        .onChange(async v => { this.plugin.settings.linkContext = v; await this.plugin.saveSettings(); }));
+
+    new Setting(containerEl)
+      .setName('Rebuild vault index')
+      .setDesc('The word index behind related notes and local TF-IDF tags is updated incrementally and kept in the plugin folder. Clear it to re-read every note on the next run.')
+      .addButton(b => b
+        .setButtonText('Clear')
+        .onClick(async () => {
+          await this.plugin.corpus.clear();
+          new Notice('Vault index cleared.');
+        }));
+
+    new Setting(containerEl).setName('Writing').setHeading();
+
+    new Setting(containerEl)
+      .setName('Review changes before writing')
+      .setDesc('Show old vs. new values and accept, reject or edit each field (single-note runs only; batch runs write directly)')
+      .addToggle(t => t
+        .setValue(this.plugin.settings.reviewBeforeWrite)
+        .onChange(async v => { this.plugin.settings.reviewBeforeWrite = v; await this.plugin.saveSettings(); }));
+
+    new Setting(containerEl)
+      .setName('Inline tags in the body')
+      .setDesc('Inline #tags are always added to the frontmatter. Tags in code, links, URLs, math, comments and HTML are ignored.')
+      .addDropdown(d => {
+        for (const [value, label] of Object.entries(INLINE_TAG_MODE_LABELS)) d.addOption(value, label);
+        d.setValue(this.plugin.settings.inlineTagMode).onChange(async v => {
+          this.plugin.settings.inlineTagMode = v as InlineTagMode;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    // Merge policy per field (schema fields + plugin-managed fields)
+    const policyKeys = [...this.plugin.settings.schemaFields.map(f => f.key), ...Object.keys(DEFAULT_FIELD_POLICIES)];
+    for (const key of Array.from(new Set(policyKeys))) {
+      new Setting(containerEl)
+        .setName(`Merge: ${key}`)
+        .setDesc(key === 'tags'
+          ? 'Append unions with existing tags; overwrite replaces them with inline + AI tags'
+          : 'How the new value is combined with an existing one')
+        .addDropdown(d => {
+          for (const [policy, label] of Object.entries(MERGE_POLICY_LABELS)) d.addOption(policy, label);
+          d.setValue(this.plugin.settings.fieldPolicies[key] ?? DEFAULT_FIELD_POLICIES[key] ?? 'overwrite');
+          d.onChange(async v => {
+            this.plugin.settings.fieldPolicies[key] = v as MergePolicy;
+            await this.plugin.saveSettings();
+          });
+        });
+    }
+
+    new Setting(containerEl)
+      .setName('Lock key')
+      .setDesc('Frontmatter key listing fields a note protects, e.g. fm_lock: [title, summary]. Use fm_lock: true to skip the note entirely.')
+      .addText(t => t
+        .setPlaceholder('fm_lock')
+        .setValue(this.plugin.settings.lockKey)
+        .onChange(async v => { this.plugin.settings.lockKey = v.trim() || DEFAULT_SETTINGS.lockKey; await this.plugin.saveSettings(); }));
+
+    new Setting(containerEl)
+      .setName('Remove fields')
+      .setDesc('Comma-separated frontmatter keys deleted on every run (leave empty to keep everything)')
+      .addText(t => t
+        .setPlaceholder('updated, last_modified, path')
+        .setValue(this.plugin.settings.removeFields.join(', '))
+        .onChange(async v => {
+          this.plugin.settings.removeFields = v.split(',').map(x => x.trim()).filter(Boolean);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl).setName('Validation').setHeading();
+
+    numberSetting('Repair retries', 'Re-prompt the model with the specific violations up to this many times (0 = never)', 'validationRetries', 0);
+
+    new Setting(containerEl).setName('Long notes').setHeading();
+
+    new Setting(containerEl)
+      .setName('Long-note mode')
+      .setDesc('Summarize long notes chunk by chunk and combine the results, instead of truncating the body')
+      .addToggle(t => t
+        .setValue(this.plugin.settings.longNoteMode)
+        .onChange(async v => { this.plugin.settings.longNoteMode = v; await this.plugin.saveSettings(); }));
+    numberSetting('Chunk size (tokens)', 'Approximate token budget per chunk; notes below it use a single call', 'chunkTokens', 500);
+    numberSetting('Max calls per note', 'Upper limit on AI calls for one note, including the final combining call', 'maxCallsPerNote', 2);
+
+    new Setting(containerEl).setName('Automation').setHeading();
+
+    {
+      const s = this.plugin.settings;
+      const active = [
+        s.autoOnCreate ? 'on create' : '',
+        s.autoOnIdle ? `after ${s.autoIdleSeconds}s idle` : '',
+        s.autoMoveIntoFolders.length ? `on move into ${s.autoMoveIntoFolders.join(', ')}` : '',
+      ].filter(Boolean);
+      containerEl.createEl('p', {
+        text: active.length ? `Automatic runs are active: ${active.join('; ')}.` : 'Automatic runs are off.',
+        cls: 'setting-item-description',
+      });
+    }
+
+    new Setting(containerEl)
+      .setName('Run on note creation')
+      .addToggle(t => t
+        .setValue(this.plugin.settings.autoOnCreate)
+        .onChange(async v => { this.plugin.settings.autoOnCreate = v; await this.plugin.saveSettings(); this.display(); }));
+
+    new Setting(containerEl)
+      .setName('Run after editing stops')
+      .setDesc('Runs once a note has not been modified for the idle time below')
+      .addToggle(t => t
+        .setValue(this.plugin.settings.autoOnIdle)
+        .onChange(async v => { this.plugin.settings.autoOnIdle = v; await this.plugin.saveSettings(); this.display(); }));
+    numberSetting('Idle time (seconds)', 'Seconds without edits before an automatic run', 'autoIdleSeconds', 5);
+
+    const listSetting = (
+      name: string,
+      desc: string,
+      key: 'autoMoveIntoFolders' | 'autoInclude' | 'autoExclude' | 'autoRequireTags' | 'autoSkipTags',
+      placeholder: string
+    ) => {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addTextArea(t => t
+          .setPlaceholder(placeholder)
+          .setValue(this.plugin.settings[key].join('\n'))
+          .onChange(async v => {
+            this.plugin.settings[key] = parseList(v);
+            await this.plugin.saveSettings();
+          }));
+    };
+    listSetting('Run when moved into', 'Folders (globs); a note moved into one of them is processed', 'autoMoveIntoFolders', 'Processed/**');
+    listSetting('Include folders', 'Globs, one per line; empty = whole vault', 'autoInclude', 'Notes/**');
+    listSetting('Exclude folders', 'Globs, one per line', 'autoExclude', 'Templates/**');
+    listSetting('Required tags', 'Only notes with at least one of these tags (empty = any)', 'autoRequireTags', 'inbox');
+    listSetting('Skip tags', 'Never process notes with one of these tags', 'autoSkipTags', 'draft');
+    numberSetting('Minimum body length', 'Notes with a shorter body (in characters) are skipped', 'autoMinBodyLength', 0);
+
+    new Setting(containerEl).setName('Cache').setHeading();
+
+    new Setting(containerEl)
+      .setName('Skip unchanged notes')
+      .setDesc(`Skip notes whose body and settings match the hash stored in ${CONTENT_HASH_KEY} at the last run. The force command always runs.`)
+      .addToggle(t => t
+        .setValue(this.plugin.settings.skipUnchanged)
+        .onChange(async v => { this.plugin.settings.skipUnchanged = v; await this.plugin.saveSettings(); }));
+
+    new Setting(containerEl)
+      .setName('Response cache')
+      .setDesc('Reuse the stored AI answer when the exact same prompt is sent to the same model again')
+      .addToggle(t => t
+        .setValue(this.plugin.settings.responseCacheEnabled)
+        .onChange(async v => { this.plugin.settings.responseCacheEnabled = v; await this.plugin.saveSettings(); }));
+    numberSetting('Cached responses', 'Least recently used responses beyond this are evicted (0 = unlimited)', 'responseCacheMaxEntries', 0);
+
+    const clearCache = new Setting(containerEl)
+      .setName('Clear response cache')
+      .addButton(b => b
+        .setButtonText('Clear')
+        .onClick(async () => {
+          await this.plugin.responseCache.clear();
+          clearCache.setDesc('0 cached responses');
+          new Notice('Response cache cleared.');
+        }));
+    this.plugin.responseCache.size().then(n => clearCache.setDesc(`${n} cached responses`));
+
+    new Setting(containerEl).setName('Usage and budget').setHeading();
+
+    new Setting(containerEl)
+      .setName('Model prices')
+      .setDesc('One model per line: "model: input, output" in USD per 1M tokens. A name also matches longer model ids (claude-3-5-haiku → claude-3-5-haiku-latest). Calls to unlisted models are logged without a cost.')
+      .addTextArea(t => {
+        t.setValue(formatPriceTable(this.plugin.settings.modelPrices))
+          .onChange(async v => {
+            this.plugin.settings.modelPrices = parsePriceTable(v);
+            await this.plugin.saveSettings();
+          });
+        t.inputEl.rows = 8;
+      })
+      .addExtraButton(b => b
+        .setIcon('rotate-ccw')
+        .setTooltip('Restore default prices')
+        .onClick(async () => {
+          this.plugin.settings.modelPrices = { ...DEFAULT_PRICES };
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+    numberSetting('Daily budget (USD)', 'AI calls stop once today\'s spend reaches this (0 = no cap)', 'budgetDaily', 0, true);
+    numberSetting('Monthly budget (USD)', 'AI calls stop once this month\'s spend reaches this (0 = no cap)', 'budgetMonthly', 0, true);
+    numberSetting('Usage log size', 'Oldest calls beyond this are dropped from the log; calls from the current month are always kept for the budget caps (0 = unlimited)', 'usageLogMaxEntries', 0);
+
+    const usageRow = new Setting(containerEl)
+      .setName('Usage log')
+      .addButton(b => b
+        .setButtonText('Show')
+        .onClick(() => new UsageModal(this.app, this.plugin.usage, {
+          daily: this.plugin.settings.budgetDaily,
+          monthly: this.plugin.settings.budgetMonthly,
+        }).open()))
+      .addButton(b => b
+        .setButtonText('Clear')
+        .setWarning()
+        .onClick(async () => {
+          if (!window.confirm('Delete the usage log? Budget totals start again from zero.')) return;
+          await this.plugin.usage.clear();
+          usageRow.setDesc('Today: $0.00 · This month: $0.00');
+        }));
+    Promise.all([this.plugin.usage.totals('day'), this.plugin.usage.totals('month')])
+      .then(([day, month]) => usageRow.setDesc(`Today: ${formatCost(day.cost)} · This month: ${formatCost(month.cost)}`));
+
+    new Setting(containerEl).setName('Audit').setHeading();
+
+    new Setting(containerEl)
+      .setName('Report note')
+      .setDesc('Written (and replaced) by "Frontmatter: audit vault". Notes are never modified by the audit.')
+      .addText(t => t
+        .setPlaceholder(DEFAULT_SETTINGS.auditReportPath)
+        .setValue(this.plugin.settings.auditReportPath)
+        .onChange(async v => { this.plugin.settings.auditReportPath = v.trim(); await this.plugin.saveSettings(); }));
+    numberSetting('Changed body threshold (%)', 'Notes whose body words changed at least this much since their last run are listed as stale', 'auditChangedPercent', 1);
+
+    new Setting(containerEl).setName('History').setHeading();
+
+    new Setting(containerEl)
+      .setName('Keep history')
+      .setDesc('Save the original note before each update so it can be undone or restored')
+      .addToggle(t => t
+        .setValue(this.plugin.settings.historyEnabled)
+        .onChange(async v => { this.plugin.settings.historyEnabled = v; await this.plugin.saveSettings(); }));
+    numberSetting('Versions per note', 'Oldest versions beyond this are deleted (0 = unlimited)', 'historyMaxPerFile', 0);
+    numberSetting('Total versions', 'Upper limit across the vault (0 = unlimited)', 'historyMaxEntries', 0);
+    numberSetting('Max age (days)', 'Versions older than this are deleted (0 = unlimited)', 'historyMaxAgeDays', 0);
+
+    new Setting(containerEl).setName('Batch runs').setHeading();
+
+    new Setting(containerEl)
+      .setName('Concurrency')
+      .setDesc('Number of notes processed in parallel during folder/vault runs')
+      .addText(t => {
+        t.setPlaceholder('2').setValue(String(this.plugin.settings.batchConcurrency));
+        (t.inputEl as HTMLInputElement).type = 'number';
+        (t.inputEl as HTMLInputElement).min = '1';
+        t.onChange(async v => {
+          const n = parseInt(v, 10);
+          if (!Number.isFinite(n) || n < 1) return;
+          this.plugin.settings.batchConcurrency = n;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName('Requests per minute')
+      .setDesc('Upper limit on AI requests started per minute (0 = unlimited)')
+      .addText(t => {
+        t.setPlaceholder('30').setValue(String(this.plugin.settings.batchRequestsPerMinute));
+        (t.inputEl as HTMLInputElement).type = 'number';
+        (t.inputEl as HTMLInputElement).min = '0';
+        t.onChange(async v => {
+          const n = parseInt(v, 10);
+          if (!Number.isFinite(n) || n < 0) return;
+          this.plugin.settings.batchRequestsPerMinute = n;
+          await this.plugin.saveSettings();
+        });
+      });
+
+    this.displayProfiles(containerEl);
+  }
+
+  // === Prompt template editor with a live preview for the active note ===
+  private displayPrompt(containerEl: HTMLElement) {
+    new Setting(containerEl).setName('Prompt').setHeading();
+
+    const settings = this.plugin.settings;
+    const format = settings.responseFormat;
+    const key = promptTemplateKey(format);
+
+    new Setting(containerEl)
+      .setName('Response format')
+      .setDesc('Format the model answers in. Some models follow YAML more reliably. Long-note section summaries always use JSON.')
+      .addDropdown(d => {
+        for (const [value, label] of Object.entries(RESPONSE_FORMAT_LABELS)) d.addOption(value, label);
+        d.setValue(format).onChange(async v => {
+          settings.responseFormat = v as ResponseFormat;
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+
+    const variables = containerEl.createEl('ul', { cls: 'setting-item-description' });
+    for (const [name, doc] of Object.entries(PROMPT_VARIABLE_DOCS)) {
+      variables.createEl('li', { text: `{{${name}}} – ${doc}` });
+    }
+
+    const templateHint = settings[key].trim() ? 'Customized.' : 'Built-in template.';
+    const template = new Setting(containerEl)
+      .setName(`${RESPONSE_FORMAT_LABELS[format]} prompt template`)
+      .setDesc(templateHint)
+      .addTextArea(t => {
+        t.setValue(promptTemplateFor(settings)).onChange(async v => {
+          // Storing '' keeps following the built-in template when it changes in a later version
+          settings[key] = v === DEFAULT_PROMPT_TEMPLATES[format] ? '' : v;
+          const unknown = unknownVariables(v);
+          template.setDesc(unknown.length ? `⚠ Unknown variables: ${unknown.join(', ')}` : 'Customized.');
+          await this.plugin.saveSettings();
+          refreshPreview();
+        });
+        t.inputEl.rows = 16;
+        t.inputEl.cols = 60;
+      })
+      .addExtraButton(b => b
+        .setIcon('rotate-ccw')
+        .setTooltip('Reset to default')
+        .onClick(async () => {
+          settings[key] = '';
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+
+    const previewEl = containerEl.createEl('pre', { cls: 'setting-item-description' });
+    let previewRun = 0;
+    const refreshPreview = async () => {
+      const file = this.app.workspace.getActiveFile();
+      if (!file || file.extension !== 'md') {
+        previewEl.setText('Open a note to preview the prompt.');
+        return;
+      }
+      const run = ++previewRun;
+      let text: string;
+      try {
+        text = await this.plugin.previewPrompt(file);
+      } catch (e) {
+        text = `Preview failed: ${e instanceof Error ? e.message : String(e)}`;
+      }
+      if (run !== previewRun) return;   // a newer edit already started another render
+      const limit = 4000;
+      previewEl.setText(`Preview for ${file.path}:\n\n` +
+        (text.length > limit ? `${text.slice(0, limit)}\n… (${text.length - limit} more characters)` : text));
+    };
+    refreshPreview();
+  }
+
+  // === Profiles: named overrides matched per note ===
+  private displayProfiles(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName('Profiles')
+      .setDesc('Override settings for some notes. The first profile whose folder, tag or frontmatter rule matches is used.')
+      .setHeading();
+
+    const file = this.app.workspace.getActiveFile();
+    if (file) {
+      const fm = this.app.metadataCache.getFileCache(file)?.frontmatter ?? null;
+      const { profile, problems } = this.plugin.resolveSettings(file, fm);
+      containerEl.createEl('p', {
+        text: profile
+          ? `Active note (${file.path}) uses profile "${profile.profile.name}" (matched by ${profile.reason}).` +
+            (problems.length ? ` Ignored overrides: ${problems.join('; ')}.` : '')
+          : `Active note (${file.path}) uses the global settings.`,
+        cls: 'setting-item-description',
+      });
+    }
+
+    const save = async () => { await this.plugin.saveSettings(); };
+
+    new Setting(containerEl)
+      .setName('Profile key')
+      .setDesc('Frontmatter key that selects a profile by name, e.g. fm_profile: research (takes precedence over the rules)')
+      .addText(t => t
+        .setPlaceholder('fm_profile')
+        .setValue(this.plugin.settings.profileKey)
+        .onChange(async v => { this.plugin.settings.profileKey = v.trim(); await save(); }));
+
+    const profiles = this.plugin.settings.profiles;
+    profiles.forEach((profile, i) => {
+      const row = new Setting(containerEl)
+        .setName(profile.name || '(no name)')
+        .addText(t => t
+          .setPlaceholder('name')
+          .setValue(profile.name)
+          .onChange(async v => { profile.name = v.trim(); await save(); }))
+        .addExtraButton(b => b
+          .setIcon('arrow-up')
+          .setTooltip('Move up (earlier profiles win)')
+          .setDisabled(i === 0)
+          .onClick(async () => {
+            if (i === 0) return;
+            [profiles[i - 1], profiles[i]] = [profiles[i], profiles[i - 1]];
+            await save();
+            this.display();
+          }))
+        .addExtraButton(b => b
+          .setIcon('trash')
+          .setTooltip('Remove this profile')
+          .onClick(async () => {
+            this.plugin.settings.profiles = profiles.filter(x => x !== profile);
+            await save();
+            this.display();
+          }));
+      row.setDesc(`Applies to notes in ${profile.folders.join(', ') || '(no folders)'}` +
+        `, tagged ${profile.tags.join(', ') || '(no tags)'}` +
+        `, or with frontmatter ${profile.frontmatter.join(', ') || '(no rules)'}`);
+
+      const rules = new Setting(containerEl);
+      const ruleList = (key: 'folders' | 'tags' | 'frontmatter', placeholder: string) => rules.addTextArea(t => t
+        .setPlaceholder(placeholder)
+        .setValue(profile[key].join('\n'))
+        .onChange(async v => { profile[key] = parseList(v); await save(); }));
+      ruleList('folders', 'Folder globs\nResearch/Korean/**');
+      ruleList('tags', 'Tags\njournal');
+      ruleList('frontmatter', 'Frontmatter rules\ntype=paper');
+
+      const overridesHint = 'YAML with any setting keys, plus model for the provider\'s model';
+      const initialProblems = resolveProfile(this.plugin.settings, profile).problems;
+      const overrides = new Setting(containerEl)
+        .setName('Overrides')
+        .setDesc(initialProblems.length ? `⚠ ${initialProblems.join('; ')}` : overridesHint);
+      overrides.addTextArea(t => {
+        t.setPlaceholder('model: gpt-4o\ntagLangs:\n  - { code: ko, max: 5 }\n  - { code: en, max: 3 }')
+          .setValue(Object.keys(profile.overrides).length ? YAML.dump(profile.overrides).trim() : '')
+          .onChange(async v => {
+            const parsed = v.trim() ? safeLoadYaml(v) : {};
+            if (!isObject(parsed) || Array.isArray(parsed)) {
+              overrides.setDesc('⚠ Not a YAML mapping; not saved');
+              return;
+            }
+            profile.overrides = parsed;
+            const { problems } = resolveProfile(this.plugin.settings, profile);
+            overrides.setDesc(problems.length ? `⚠ ${problems.join('; ')}` : overridesHint);
+            await save();
+          });
+        t.inputEl.rows = 6;
+      });
+    });
+
+    new Setting(containerEl)
+      .addButton(b => b
+        .setButtonText('Add profile')
+        .onClick(async () => {
+          profiles.push({ ...DEFAULT_PROFILE, name: `profile${profiles.length + 1}` });
+          await save();
+          this.display();
+        }));
+  }
+
+  // === Schema editor: one block per AI-filled field ===
+  private displaySchema(containerEl: HTMLElement) {
+    new Setting(containerEl)
+      .setName('Fields')
+      .setDesc('Frontmatter fields the AI fills in (tags are configured below). The prompt, validation and writes follow this list.')
+      .setHeading();
+
+    const fields = this.plugin.settings.schemaFields;
+    const save = async () => { await this.plugin.saveSettings(); };
+
+    for (const field of fields) {
+      const row = new Setting(containerEl);
+      const problem = schemaFieldProblem(field, fields);
+      row.setName(field.key || '(no key)');
+      row.setDesc(problem ? `⚠ ${problem}` : field.instruction);
+
+      row.addText(t => t
+        .setPlaceholder('key')
+        .setValue(field.key)
+        .onChange(async v => { field.key = v.trim(); await save(); }));
+
+      row.addDropdown(d => {
+        for (const type of SCHEMA_FIELD_TYPES) d.addOption(type, type);
+        d.setValue(field.type).onChange(async v => {
+          field.type = v as SchemaFieldType;
+          await save();
+          this.display();
+        });
+      });
+
+      row.addExtraButton(b => b
+        .setIcon('trash')
+        .setTooltip('Remove this field')
+        .onClick(async () => {
+          this.plugin.settings.schemaFields = fields.filter(x => x !== field);
+          await save();
+          this.display();
+        }));
+
+      const detail = new Setting(containerEl);
+      detail.addTextArea(t => t
+        .setPlaceholder('Instruction for the model')
+        .setValue(field.instruction)
+        .onChange(async v => { field.instruction = v; await save(); }));
+
+      if (field.type === 'enum' || field.type === 'list') {
+        detail.addText(t => t
+          .setPlaceholder(field.type === 'enum' ? 'Options (comma-separated)' : 'Allowed items (optional)')
+          .setValue((field.options ?? []).join(', '))
+          .onChange(async v => {
+            field.options = v.split(',').map(x => x.trim()).filter(Boolean);
+            await save();
+          }));
+      }
+
+      if (field.type === 'string' || field.type === 'list' || field.type === 'number') {
+        const bound = (key: 'min' | 'max') => detail.addText(t => {
+          t.setPlaceholder(key).setValue(field[key] != null ? String(field[key]) : '');
+          (t.inputEl as HTMLInputElement).type = 'number';
+          t.onChange(async v => {
+            const n = parseFloat(v);
+            if (Number.isFinite(n)) field[key] = n;
+            else delete field[key];
+            await save();
+          });
+        });
+        bound('min');
+        bound('max');
+      }
+    }
+
+    new Setting(containerEl)
+      .addButton(b => b
+        .setButtonText('Add field')
+        .onClick(async () => {
+          fields.push({ key: `field${fields.length + 1}`, type: 'string', instruction: '' });
+          await save();
+          this.display();
+        }))
+      .addButton(b => b
+        .setButtonText('Reset to default')
+        .onClick(async () => {
+          this.plugin.settings.schemaFields = DEFAULT_SCHEMA.map(f => ({ ...f }));
+          await save();
+          this.display();
+        }));
   }
 }
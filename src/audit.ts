@@ -0,0 +1,189 @@
+// src/audit.ts
+// Read-only frontmatter audit: per-note checks and the Markdown report with a queue link.
+import * as YAML from 'js-yaml';
+import { checkTagScript } from './languages';
+import { formatTag, normalizeTagText, TagFormatPolicy, tagCaseFor, tagKey, TAG_CASE_LABELS } from './tags';
+
+/* =========================
+   Types
+   ========================= */
+export type AuditSection = 'missing' | 'changed' | 'inline' | 'tags' | 'frontmatter';
+
+export type AuditEntry = { path: string; detail: string };
+
+export type AuditReport = {
+  generatedAt: number;
+  scanned: number;
+  sections: Record<AuditSection, AuditEntry[]>;
+};
+
+const SECTION_TITLES: Record<AuditSection, string> = {
+  missing: 'Missing fields',
+  changed: 'Changed since the last run',
+  inline: 'Inline tags not in the frontmatter',
+  tags: 'Tags that break the format rules',
+  frontmatter: 'Unparseable frontmatter',
+};
+
+// Sections a regeneration run fixes; the others need manual attention
+const QUEUED_SECTIONS: AuditSection[] = ['missing', 'changed', 'inline'];
+
+const SECTION_NOTES: Partial<Record<AuditSection, string>> = {
+  tags: 'Not queued: runs keep existing tags as written. Rename them by hand or with "Frontmatter: consolidate similar tags".',
+  frontmatter: 'Not queued: fix the YAML by hand first; runs cannot update these notes.',
+};
+
+export function emptyAuditReport(): AuditReport {
+  return { generatedAt: Date.now(), scanned: 0, sections: { missing: [], changed: [], inline: [], tags: [], frontmatter: [] } };
+}
+
+/* =========================
+   Checks
+   ========================= */
+
+/** Why the frontmatter block cannot be used, or null when it parses to a mapping (or there is none) */
+export function frontmatterProblem(raw: string): string | null {
+  if (!raw.startsWith('---')) return null;
+  const end = raw.indexOf('\n---', 3);
+  if (end === -1) return 'frontmatter block is not closed';
+  try {
+    const data = YAML.load(raw.slice(3, end + 1));
+    if (data == null) return null;
+    return typeof data === 'object' && !Array.isArray(data) ? null : 'frontmatter is not a key/value mapping';
+  } catch (e) {
+    const reason = e instanceof YAML.YAMLException ? e.reason : e instanceof Error ? e.message : String(e);
+    return `invalid YAML: ${reason}`;
+  }
+}
+
+/** Keys without a value (missing, empty string or empty list) */
+export function missingFields(fm: Record<string, unknown> | null, keys: string[]): string[] {
+  return keys.filter(k => {
+    const v = fm?.[k];
+    return v == null || (typeof v === 'string' && !v.trim()) || (Array.isArray(v) && !v.length);
+  });
+}
+
+/** Tags from the frontmatter `tags` value (list, or a comma/space separated string) */
+export function frontmatterTags(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : value == null ? [] : [value];
+  return list.flatMap(t => String(t ?? '').split(/[,\s]+/)).map(t => t.replace(/^#/, '')).filter(Boolean);
+}
+
+/**
+ * Problem with a frontmatter tag under the format policy, or null.
+ * The language is guessed from the script among `langs`; tags in `exempt` (taxonomy paths) are skipped.
+ */
+export function tagFormatProblem(tag: string, policy: TagFormatPolicy, langs: string[], exempt: Set<string>): string | null {
+  const normalized = normalizeTagText(tag);
+  if (normalized !== tag) return normalized ? `invalid characters (→ ${normalized})` : 'not a valid tag';
+  if (exempt.has(tag.toLowerCase())) return null;
+  const lang = langs.find(code => checkTagScript(code, tag) === null);
+  if (!lang) return null;
+  const style = tagCaseFor(policy, lang);
+  const expected = formatTag(tag, style);
+  return expected === tag ? null : `${lang} tags are ${TAG_CASE_LABELS[style]} (→ ${expected})`;
+}
+
+/** Inline tags whose key is not among the frontmatter tags */
+export function unmergedInlineTags(inline: string[], fmTags: string[]): string[] {
+  const keys = new Set(fmTags.map(tagKey));
+  const seen = new Set<string>();
+  return inline.filter(t => {
+    const k = tagKey(t);
+    if (!k || keys.has(k) || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/** Share of words changed between two texts, 0 (same words) … 1 (nothing in common) */
+export function changeRatio(before: string, after: string): number {
+  const a = wordCounts(before);
+  const b = wordCounts(after);
+  let totalA = 0;
+  let totalB = 0;
+  let common = 0;
+  for (const n of a.values()) totalA += n;
+  for (const [w, n] of b) {
+    totalB += n;
+    common += Math.min(n, a.get(w) ?? 0);
+  }
+  const total = Math.max(totalA, totalB);
+  return total ? 1 - common / total : 0;
+}
+
+function wordCounts(s: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const w of s.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (w) counts.set(w, (counts.get(w) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/* =========================
+   Report
+   ========================= */
+
+/** Notes that a queue run would process, in report order */
+export function queuedPaths(report: AuditReport): string[] {
+  return Array.from(new Set(QUEUED_SECTIONS.flatMap(s => report.sections[s].map(e => e.path))));
+}
+
+/** The report note; `queueUrl` is the obsidian:// link that queues the flagged notes */
+export function renderAuditReport(report: AuditReport, queueUrl: string): string {
+  const flagged = new Set(Object.values(report.sections).flatMap(list => list.map(e => e.path)));
+  const queued = queuedPaths(report);
+  const when = new Date(report.generatedAt).toLocaleString();
+
+  const lines = [
+    '---',
+    'fm_lock: true',
+    '---',
+    '# Frontmatter audit',
+    '',
+    `Generated ${when} · ${report.scanned} notes scanned · ${flagged.size} flagged. Running the audit again replaces this note.`,
+    '',
+    queued.length
+      ? `**[Queue ${queued.length} notes for regeneration](${queueUrl})** (the first three sections; remove lines to leave notes out)`
+      : 'Nothing to regenerate.',
+  ];
+
+  for (const section of Object.keys(SECTION_TITLES) as AuditSection[]) {
+    const entries = report.sections[section];
+    lines.push('', `## ${SECTION_TITLES[section]} (${entries.length})`, '');
+    if (SECTION_NOTES[section]) lines.push(`*${SECTION_NOTES[section]}*`, '');
+    if (!entries.length) lines.push('None.');
+    for (const e of entries) lines.push(`- ${noteLink(e.path)} — ${e.detail}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** A tag as inline code: plain `#tag` text would make the report note count as using it */
+export function tagMention(tag: string): string {
+  return tag.includes('`') ? `\`\` #${tag} \`\`` : `\`#${tag}\``;
+}
+
+/** Link paths listed under the queued sections of a (possibly edited) report note */
+export function parseQueuedLinks(text: string): string[] {
+  const queuedTitles = new Set(QUEUED_SECTIONS.map(s => SECTION_TITLES[s]));
+  const out: string[] = [];
+  let inQueued = false;
+  for (const line of text.split('\n')) {
+    const heading = line.match(/^##\s+(.+?)(?:\s+\(\d+\))?\s*$/);
+    if (heading) {
+      inQueued = queuedTitles.has(heading[1]);
+      continue;
+    }
+    const link = inQueued ? line.match(/^\s*[-*]\s+\[\[([^\]|#]+)/) : null;
+    if (link && !out.includes(link[1])) out.push(link[1]);
+  }
+  return out;
+}
+
+// Full-path wikilink (unambiguous even with duplicate note names)
+function noteLink(path: string): string {
+  const target = path.replace(/\.md$/i, '');
+  const name = target.split('/').pop() ?? target;
+  return target === name ? `[[${target}]]` : `[[${target}|${name}]]`;
+}
@@ -0,0 +1,146 @@
+// src/auto-trigger.ts
+// Opt-in automatic runs on note create / idle after editing / move into a folder.
+import { Plugin, TAbstractFile, TFile } from 'obsidian';
+import { matchAnyGlob } from './glob';
+
+/* =========================
+   Types
+   ========================= */
+export type AutoSettings = {
+  onCreate: boolean;
+  onIdle: boolean;
+  idleSeconds: number;
+  moveIntoFolders: string[];   // globs; run when a note is moved into one of them
+  include: string[];           // globs; empty = whole vault
+  exclude: string[];           // globs
+  requireTags: string[];       // note must have one of these (empty = any)
+  skipTags: string[];          // note must have none of these
+  minBodyLength: number;
+};
+
+export type NoteFacts = { path: string; tags: string[]; bodyLength: number };
+
+/** Reason the note is not eligible for automatic runs, or null when it is */
+export function ineligibleReason(note: NoteFacts, s: AutoSettings): string | null {
+  if (s.include.length && !matchAnyGlob(note.path, s.include)) return 'not in an included folder';
+  if (matchAnyGlob(note.path, s.exclude)) return 'in an excluded folder';
+
+  const tags = new Set(note.tags.map(normalizeTag));
+  if (s.requireTags.length && !s.requireTags.some(t => tags.has(normalizeTag(t)))) return 'missing a required tag';
+  if (s.skipTags.some(t => tags.has(normalizeTag(t)))) return 'has an excluded tag';
+  if (note.bodyLength < s.minBodyLength) return `body shorter than ${s.minBodyLength} characters`;
+  return null;
+}
+
+function normalizeTag(t: string) {
+  return t.replace(/^#/, '').toLowerCase();
+}
+
+/* =========================
+   Self-write guard
+   ========================= */
+
+/** Marks paths the plugin itself is writing so their modify events don't retrigger a run */
+export class SelfWriteGuard {
+  private active = new Map<string, number>();     // path → nested write count
+  private cooldown = new Map<string, number>();   // path → suppress until (ms)
+
+  constructor(private cooldownMs = 3000) {}
+
+  begin(path: string) {
+    this.active.set(path, (this.active.get(path) ?? 0) + 1);
+  }
+
+  end(path: string) {
+    const n = (this.active.get(path) ?? 1) - 1;
+    if (n > 0) this.active.set(path, n);
+    else this.active.delete(path);
+    this.cooldown.set(path, Date.now() + this.cooldownMs);
+  }
+
+  isSuppressed(path: string): boolean {
+    if (this.active.has(path)) return true;
+    const until = this.cooldown.get(path);
+    if (until === undefined) return false;
+    if (Date.now() < until) return true;
+    this.cooldown.delete(path);
+    return false;
+  }
+}
+
+/* =========================
+   Trigger wiring
+   ========================= */
+type AutoTriggerHost = {
+  settings: () => AutoSettings;
+  guard: SelfWriteGuard;
+  isEligible: (file: TFile) => Promise<boolean>;
+  run: (file: TFile) => Promise<void>;
+};
+
+export class AutoTrigger {
+  private idleTimers = new Map<string, number>();
+  private queue: Promise<void> = Promise.resolve();
+  private queued = new Set<string>();
+
+  constructor(private plugin: Plugin, private host: AutoTriggerHost) {}
+
+  /** Call once the layout is ready (the vault fires `create` for every file on startup) */
+  register() {
+    const { vault } = this.plugin.app;
+
+    this.plugin.registerEvent(vault.on('create', (f) => {
+      if (!this.host.settings().onCreate || !isNote(f) || this.host.guard.isSuppressed(f.path)) return;
+      // Give the metadata cache a moment to index the new note
+      this.schedule(f, 2000);
+    }));
+
+    this.plugin.registerEvent(vault.on('modify', (f) => {
+      const s = this.host.settings();
+      if (!s.onIdle || !isNote(f) || this.host.guard.isSuppressed(f.path)) return;
+      this.schedule(f, Math.max(1, s.idleSeconds) * 1000);
+    }));
+
+    this.plugin.registerEvent(vault.on('rename', (f, oldPath) => {
+      const folders = this.host.settings().moveIntoFolders;
+      if (!folders.length || !isNote(f)) return;
+      if (matchAnyGlob(f.path, folders) && !matchAnyGlob(oldPath, folders)) this.schedule(f, 1000);
+    }));
+
+    this.plugin.register(() => {
+      for (const t of this.idleTimers.values()) window.clearTimeout(t);
+      this.idleTimers.clear();
+    });
+  }
+
+  // Debounced per path: each new event restarts the timer
+  private schedule(file: TFile, delayMs: number) {
+    const prev = this.idleTimers.get(file.path);
+    if (prev !== undefined) window.clearTimeout(prev);
+    this.idleTimers.set(file.path, window.setTimeout(() => {
+      this.idleTimers.delete(file.path);
+      this.enqueue(file);
+    }, delayMs));
+  }
+
+  // One automatic run at a time
+  private enqueue(file: TFile) {
+    if (this.queued.has(file.path)) return;
+    this.queued.add(file.path);
+    this.queue = this.queue.then(async () => {
+      try {
+        if (this.host.guard.isSuppressed(file.path)) return;
+        if (!(await this.host.isEligible(file))) return;
+        await this.host.run(file);
+      } catch (e) {
+        console.error('Automatic frontmatter run failed:', file.path, e);
+      } finally {
+        this.queued.delete(file.path);
+      }
+    });
+  }
+}
+
+function isNote(f: TAbstractFile): f is TFile {
+  return f instanceof TFile && f.extension === 'md';
+}
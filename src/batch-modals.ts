@@ -0,0 +1,64 @@
+// src/batch-modals.ts
+import { App, FuzzySuggestModal, Modal, Setting, TFolder } from 'obsidian';
+import type { BatchState } from './batch';
+
+/** Pick a vault folder (root included) */
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+  constructor(app: App, private onPick: (folder: TFolder) => void) {
+    super(app);
+    this.setPlaceholder('Choose a folder to update…');
+  }
+
+  getItems(): TFolder[] {
+    return this.app.vault.getAllLoadedFiles()
+      .filter((f): f is TFolder => f instanceof TFolder);
+  }
+
+  getItemText(folder: TFolder): string {
+    return folder.isRoot() ? '/' : folder.path;
+  }
+
+  onChooseItem(folder: TFolder): void {
+    this.onPick(folder);
+  }
+}
+
+/** Summary shown when a batch run ends: counts + per-file errors */
+export class BatchReportModal extends Modal {
+  constructor(app: App, private state: BatchState, private cancelled: boolean) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl, state } = this;
+    contentEl.empty();
+
+    this.titleEl.setText(`Frontmatter batch: ${state.label}`);
+    contentEl.createEl('p', {
+      text: `${this.cancelled ? 'Cancelled' : 'Finished'} — ` +
+        `${state.done.length} updated, ${state.errors.length} failed, ` +
+        `${state.pending.length} not processed (of ${state.total}).`,
+    });
+
+    if (state.errors.length) {
+      contentEl.createEl('h4', { text: 'Errors' });
+      const list = contentEl.createEl('ul');
+      for (const err of state.errors) {
+        const li = list.createEl('li');
+        const link = li.createEl('a', { text: err.path, href: '#' });
+        link.onclick = (evt) => {
+          evt.preventDefault();
+          this.app.workspace.openLinkText(err.path, '', false);
+          this.close();
+        };
+        li.createSpan({ text: ` — ${err.message}` });
+      }
+    }
+
+    new Setting(contentEl).addButton(b => b.setButtonText('Close').setCta().onClick(() => this.close()));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,136 @@
+// src/batch.ts
+
+/* =========================
+   Types
+   ========================= */
+export type BatchSettings = {
+  concurrency: number;        // parallel workers
+  requestsPerMinute: number;  // 0 = unlimited
+};
+
+export type BatchError = { path: string; message: string };
+
+// Persisted between reloads so an interrupted run can be resumed
+export type BatchState = {
+  label: string;
+  startedAt: number;
+  total: number;
+  pending: string[];
+  done: string[];
+  errors: BatchError[];
+  rerun?: boolean;   // process notes even if unchanged since their last run
+};
+
+export type BatchProgress = {
+  label: string;
+  total: number;
+  done: number;
+  failed: number;
+  running: number;
+};
+
+type BatchQueueOptions = {
+  settings: BatchSettings;
+  worker: (path: string) => Promise<void>;
+  persist?: (state: BatchState) => Promise<void>;
+  onProgress?: (p: BatchProgress) => void;
+};
+
+export function createBatchState(label: string, paths: string[], rerun = false): BatchState {
+  const pending = Array.from(new Set(paths));
+  return { label, startedAt: Date.now(), total: pending.length, pending, done: [], errors: [], rerun };
+}
+
+/* =========================
+   Queue
+   ========================= */
+export class BatchQueue {
+  private cancelled = false;
+  private running = 0;
+  private nextStartAt = 0;
+
+  constructor(private state: BatchState, private opts: BatchQueueOptions) {}
+
+  get isCancelled() {
+    return this.cancelled;
+  }
+
+  /** Stops handing out new files; files already in flight are allowed to finish */
+  cancel() {
+    this.cancelled = true;
+  }
+
+  async run(): Promise<BatchState> {
+    const { state } = this;
+    const finished = new Set([...state.done, ...state.errors.map(e => e.path)]);
+    const queue = state.pending.filter(p => !finished.has(p));
+    state.pending = [...queue];
+    this.emitProgress();
+
+    const workers = Math.max(1, Math.floor(this.opts.settings.concurrency) || 1);
+    const loop = async () => {
+      while (!this.cancelled) {
+        const path = queue.shift();
+        if (path === undefined) return;
+
+        await this.waitForRateSlot();
+        if (this.cancelled) {
+          queue.unshift(path);
+          return;
+        }
+
+        this.running++;
+        this.emitProgress();
+        try {
+          await this.opts.worker(path);
+          state.done.push(path);
+        } catch (e) {
+          state.errors.push({ path, message: e instanceof Error ? e.message : String(e) });
+        } finally {
+          this.running--;
+          state.pending = state.pending.filter(p => p !== path);
+          await this.persist();
+          this.emitProgress();
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: workers }, loop));
+    return state;
+  }
+
+  // Spread request starts evenly: at most `requestsPerMinute` starts per minute
+  private async waitForRateSlot() {
+    const rpm = this.opts.settings.requestsPerMinute;
+    if (!rpm || rpm <= 0) return;
+
+    const interval = 60000 / rpm;
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextStartAt);
+    this.nextStartAt = startAt + interval;
+    if (startAt > now) await sleep(startAt - now);
+  }
+
+  private async persist() {
+    if (!this.opts.persist) return;
+    try {
+      await this.opts.persist(this.state);
+    } catch (e) {
+      console.error('Failed to persist batch state:', e);
+    }
+  }
+
+  private emitProgress() {
+    this.opts.onProgress?.({
+      label: this.state.label,
+      total: this.state.total,
+      done: this.state.done.length,
+      failed: this.state.errors.length,
+      running: this.running,
+    });
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
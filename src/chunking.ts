@@ -0,0 +1,153 @@
+// src/chunking.ts
+// Long-note support: split a body into token-bounded chunks for map-reduce analysis.
+
+/* =========================
+   Token estimate
+   ========================= */
+const CJK = /[\u1100-\u11FF\u3040-\u30FF\u3130-\u318F\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF]/g;
+
+/** Rough token count: ~1 token per CJK character, ~4 characters per token otherwise */
+export function estimateTokens(s: string): number {
+  const cjk = (s.match(CJK) ?? []).length;
+  return cjk + Math.ceil((s.length - cjk) / 4);
+}
+
+/* =========================
+   Splitting
+   ========================= */
+
+/** Split on headings first, then paragraphs, then sentences; pack greedily under `maxTokens` */
+export function splitIntoChunks(body: string, maxTokens: number): string[] {
+  const budget = Math.max(100, maxTokens);
+  const pieces: string[] = [];
+  for (const section of splitSections(body)) {
+    if (estimateTokens(section) <= budget) {
+      pieces.push(section);
+      continue;
+    }
+    for (const para of section.split(/\n{2,}/)) {
+      if (estimateTokens(para) <= budget) pieces.push(para);
+      else pieces.push(...splitOversized(para, budget));
+    }
+  }
+
+  const chunks: string[] = [];
+  let cur = '';
+  for (const piece of pieces) {
+    if (!piece.trim()) continue;
+    const next = cur ? `${cur}\n\n${piece}` : piece;
+    if (cur && estimateTokens(next) > budget) {
+      chunks.push(cur);
+      cur = piece;
+    } else {
+      cur = next;
+    }
+  }
+  if (cur.trim()) chunks.push(cur);
+  return chunks;
+}
+
+/**
+ * Reduce the chunk count to `maxChunks` by merging neighbours.
+ * Each merged group keeps the head of every member so the whole note stays covered within the budget.
+ */
+export function limitChunks(chunks: string[], maxChunks: number, maxTokens: number): string[] {
+  const limit = Math.max(1, maxChunks);
+  if (chunks.length <= limit) return chunks;
+
+  const out: string[] = [];
+  const per = chunks.length / limit;
+  for (let i = 0; i < limit; i++) {
+    const group = chunks.slice(Math.round(i * per), Math.round((i + 1) * per));
+    const share = Math.floor(maxTokens / group.length);
+    out.push(group.map(c => truncateToTokens(c, share)).join('\n\n[...]\n\n'));
+  }
+  return out;
+}
+
+function splitSections(body: string): string[] {
+  const sections: string[] = [];
+  let cur: string[] = [];
+  for (const line of body.split('\n')) {
+    if (/^#{1,6}\s/.test(line) && cur.some(l => l.trim())) {
+      sections.push(cur.join('\n'));
+      cur = [];
+    }
+    cur.push(line);
+  }
+  if (cur.length) sections.push(cur.join('\n'));
+  return sections;
+}
+
+// Paragraph still too big: split by sentences, then hard-cut
+function splitOversized(text: string, budget: number): string[] {
+  const sentences = text.match(/[^.!?\u3002\uFF01\uFF1F\n]+[.!?\u3002\uFF01\uFF1F]*\s*/g) ?? [text];
+  const out: string[] = [];
+  for (const s of sentences) {
+    if (estimateTokens(s) <= budget) {
+      out.push(s);
+      continue;
+    }
+    let rest = s;
+    while (rest) {
+      const head = truncateToTokens(rest, budget);
+      out.push(head);
+      rest = rest.slice(head.length);
+    }
+  }
+  return out;
+}
+
+function truncateToTokens(s: string, tokens: number): string {
+  if (estimateTokens(s) <= tokens) return s;
+  let lo = 1;
+  let hi = s.length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (estimateTokens(s.slice(0, mid)) <= tokens) lo = mid;
+    else hi = mid - 1;
+  }
+  return s.slice(0, lo);
+}
+
+/* =========================
+   Prompts
+   ========================= */
+export type ChunkDigest = {
+  summary: string;
+  candidateTags: string[];
+};
+
+/** Map step: condense one chunk into a partial summary + candidate tags */
+export function buildChunkPrompt(args: { path: string; chunk: string; index: number; total: number; tagsPerChunk: number }) {
+  const { path, chunk, index, total, tagsPerChunk } = args;
+  return [
+    'Return **JSON only** (no code fences, no extra text).',
+    `You are reading part ${index + 1} of ${total} of a long note ("${path}").`,
+    'The JSON must have exactly these fields:',
+    '{',
+    '  "summary": string,          // 2-4 sentences covering this part only',
+    `  "candidate_tags": string[]  // up to ${tagsPerChunk} keyphrases of 1-2 words`,
+    '}',
+    '',
+    'Part:',
+    chunk,
+  ].join('\n');
+}
+
+export function parseChunkDigest(obj: Record<string, unknown> | null): ChunkDigest {
+  const summary = typeof obj?.summary === 'string' ? obj.summary.trim() : '';
+  const tags = Array.isArray(obj?.candidate_tags) ? obj?.candidate_tags as unknown[] : [];
+  return {
+    summary,
+    candidateTags: tags.filter((t): t is string => typeof t === 'string' && !!t.trim()).map(t => t.trim()),
+  };
+}
+
+/** Body text for the reduce step: partial summaries + candidate tags in note order */
+export function composeDigests(digests: ChunkDigest[]): string {
+  return digests.map((d, i) => [
+    `Part ${i + 1}/${digests.length} summary: ${d.summary || '(none)'}`,
+    `Candidate tags: ${d.candidateTags.join(', ') || '(none)'}`,
+  ].join('\n')).join('\n\n');
+}
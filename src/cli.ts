@@ -0,0 +1,582 @@
+// src/cli.ts
+// Headless runner: `frontmatter-autogen run <dir>` applies the plugin's pipeline to a folder of Markdown files.
+// Bundled separately for Node (see esbuild.config.mjs); nothing here may import 'obsidian'.
+import { promises as fs } from 'fs';
+import * as nodePath from 'path';
+import { frontmatterProblem, frontmatterTags } from './audit';
+import { BatchQueue, createBatchState } from './batch';
+import { hashString } from './hash';
+import { withRetries } from './http';
+import { estimateTokens } from './chunking';
+import { findInlineTags } from './inline-tags';
+import { CorpusStore } from './corpus-store';
+import { CorpusIndex, EngineMode, ENGINE_MODE_LABELS } from './local-engine';
+import {
+  acceptAll, applyFields, bodyTagEdits, composeNote, CONTENT_HASH_KEY, FrontmatterData, LinkedNote, parseAIAnswer, PipelineHost,
+  planNoteUpdate, sanitizeBodyForLLM, splitFrontmatter, systemPromptFor
+} from './pipeline';
+import { ResponseFormat } from './prompt-template';
+import { ResponseCache } from './response-cache';
+import { createProvider, fetchHttpClient, getPreset } from './providers';
+import { FMSettings, normalizeSettings, resolveSettingsFor } from './settings';
+import { FileAdapter, JsonFileStore } from './storage';
+import { parseTaxonomy, Taxonomy, taxonomyFormatFor } from './taxonomy';
+import { BudgetExceededError, costOf, priceFor, UsageLog } from './usage';
+import { TagStat } from './vocabulary';
+
+/* =========================
+   Types
+   ========================= */
+type CliOptions = {
+  dir: string;
+  settingsPath: string | null;
+  dryRun: boolean;
+  jsonReport: string | null;   // file path, '-' = stdout
+  force: boolean;
+  provider: string | null;
+  baseUrl: string | null;
+  model: string | null;
+  apiKey: string | null;
+  engine: EngineMode | null;
+  concurrency: number | null;
+};
+
+type FieldChangeReport = { key: string; from: unknown; to: unknown };
+
+type NoteReport = {
+  path: string;
+  status: 'updated' | 'skipped' | 'failed';
+  reason?: string;                  // skipped: locked | unchanged; failed: the error
+  engine?: 'ai' | 'local';
+  changes: FieldChangeReport[];
+  bodyChanged: boolean;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null;
+};
+
+type RunReport = {
+  dir: string;
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  settings: string | null;
+  totals: { notes: number; updated: number; skipped: number; failed: number; promptTokens: number; completionTokens: number; cost: number };
+  stopped: string | null;     // why the run ended early (budget cap), else null
+  notes: NoteReport[];
+};
+
+// Plugin data relative to a vault root
+const VAULT_SETTINGS_PATH = '.obsidian/plugins/frontmatter-autogen/data.json';
+// The plugin's vault index, shared so either side only re-reads notes changed since the other ran
+const VAULT_CORPUS_PATH = '.obsidian/plugins/frontmatter-autogen/corpus-index.json';
+// Shared with the plugin too: budget caps count calls from both, and either can reuse the other's answers
+const VAULT_USAGE_PATH = '.obsidian/plugins/frontmatter-autogen/usage-log.json';
+const VAULT_CACHE_PATH = '.obsidian/plugins/frontmatter-autogen/response-cache.json';
+// Same backoff as the plugin
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+const USAGE = `Usage: frontmatter-autogen run <dir> [options]
+
+Runs the Frontmatter Autogen pipeline over every Markdown file under <dir>.
+AI calls count against the plugin's daily and monthly budget caps (the run stops
+when one is reached) and reuse its response cache, both kept in the plugin folder
+under <dir>, also during a dry run.
+
+Options:
+  --settings <file>     plugin settings (data.json); default: <dir>/${VAULT_SETTINGS_PATH} if present
+  --dry-run             compute the changes without writing any file
+  --json-report [file]  write a JSON report to <file>, or to stdout when no file is given
+  --force               also process notes unchanged since their last run
+  --provider <id>       provider preset to use (openai, anthropic, gemini, ollama, llamacpp…)
+  --base-url <url>      API base URL of the provider
+  --model <name>        model of the provider
+  --api-key <key>       API key (default: $FRONTMATTER_AUTOGEN_API_KEY, then the settings)
+  --engine <mode>       ${Object.keys(ENGINE_MODE_LABELS).join(' | ')}
+  --concurrency <n>     notes processed in parallel (default: the batch setting)
+  -h, --help            show this help
+`;
+
+/** Bad command line: printed with the usage, exit code 2 */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/* =========================
+   Arguments
+   ========================= */
+function parseArgs(argv: string[]): CliOptions | null {
+  const opts: CliOptions = {
+    dir: '', settingsPath: null, dryRun: false, jsonReport: null, force: false,
+    provider: null, baseUrl: null, model: null, apiKey: null, engine: null, concurrency: null,
+  };
+  const args = [...argv];
+  if (!args.length || args.includes('-h') || args.includes('--help')) return null;
+  const command = args.shift();
+  if (command !== 'run') throw new UsageError(`Unknown command "${command}"`);
+
+  const value = (flag: string) => {
+    const v = args.shift();
+    if (v === undefined || v.startsWith('--')) throw new UsageError(`${flag} needs a value`);
+    return v;
+  };
+  while (args.length) {
+    const arg = args.shift() as string;
+    switch (arg) {
+      case '--settings': opts.settingsPath = value(arg); break;
+      case '--dry-run': opts.dryRun = true; break;
+      case '--json-report':
+        opts.jsonReport = args.length && !args[0].startsWith('--') ? (args.shift() as string) : '-';
+        break;
+      case '--force': opts.force = true; break;
+      case '--provider': opts.provider = value(arg); break;
+      case '--base-url': opts.baseUrl = value(arg); break;
+      case '--model': opts.model = value(arg); break;
+      case '--api-key': opts.apiKey = value(arg); break;
+      case '--engine': {
+        const engine = value(arg);
+        if (!(engine in ENGINE_MODE_LABELS)) throw new UsageError(`--engine should be one of ${Object.keys(ENGINE_MODE_LABELS).join(', ')}`);
+        opts.engine = engine as EngineMode;
+        break;
+      }
+      case '--concurrency': {
+        const n = parseInt(value(arg), 10);
+        if (!Number.isFinite(n) || n < 1) throw new UsageError('--concurrency should be a positive number');
+        opts.concurrency = n;
+        break;
+      }
+      default:
+        if (arg.startsWith('-') || opts.dir) throw new UsageError(`Unexpected argument "${arg}"`);
+        opts.dir = arg;
+    }
+  }
+  if (!opts.dir) throw new UsageError('Missing <dir>');
+  return opts;
+}
+
+/* =========================
+   Settings
+   ========================= */
+
+/** The plugin's saved settings (or the defaults) with the command-line overrides applied */
+async function loadCliSettings(opts: CliOptions): Promise<{ settings: FMSettings; source: string | null }> {
+  const candidate = opts.settingsPath ?? nodePath.join(opts.dir, VAULT_SETTINGS_PATH);
+  let data: Record<string, unknown> | null = null;
+  let source: string | null = null;
+  try {
+    data = JSON.parse(await fs.readFile(candidate, 'utf8'));
+    source = candidate;
+  } catch (e) {
+    // A missing vault data.json means defaults; an explicit --settings must exist and parse
+    if (opts.settingsPath || !isNotFound(e)) throw new Error(`Cannot read settings ${candidate}: ${errorMessage(e)}`);
+  }
+  const settings = normalizeSettings(data);
+
+  if (opts.provider) {
+    if (!settings.providers[opts.provider]) throw new UsageError(`Unknown provider "${opts.provider}"`);
+    settings.provider = opts.provider;
+  }
+  const config = { ...settings.providers[settings.provider] };
+  if (opts.baseUrl) config.baseUrl = opts.baseUrl;
+  if (opts.model) config.model = opts.model;
+  const apiKey = opts.apiKey ?? process.env.FRONTMATTER_AUTOGEN_API_KEY;
+  if (apiKey) config.apiKey = apiKey;
+  settings.providers = { ...settings.providers, [settings.provider]: config };
+  if (opts.engine) settings.engine = opts.engine;
+  if (opts.concurrency) settings.batchConcurrency = opts.concurrency;
+  return { settings, source };
+}
+
+/* =========================
+   Vault on disk
+   ========================= */
+
+// Markdown files under `dir` as vault paths ('/'-separated); dot folders (.obsidian, .git…) and node_modules are skipped
+async function listMarkdownFiles(dir: string, prefix = ''): Promise<string[]> {
+  const out: string[] = [];
+  for (const entry of await fs.readdir(nodePath.join(dir, prefix), { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+    const rel = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) out.push(...await listMarkdownFiles(dir, rel));
+    else if (entry.isFile() && /\.md$/i.test(entry.name)) out.push(rel);
+  }
+  return out.sort();
+}
+
+// Tag counts across the notes (frontmatter + inline), like Obsidian's tag index
+function tagStats(notes: Map<string, { frontmatter: FrontmatterData | null; body: string }>): TagStat[] {
+  const counts = new Map<string, number>();
+  for (const note of notes.values()) {
+    const tags = new Set(noteTags(note));
+    for (const tag of tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count }));
+}
+
+type DiskNote = { raw: string; frontmatter: FrontmatterData | null; body: string; ctime: number; mtime: number };
+
+// Frontmatter and inline tags of a note
+function noteTags(note: { frontmatter: FrontmatterData | null; body: string }): string[] {
+  return [...frontmatterTags(note.frontmatter?.tags), ...findInlineTags(note.body).map(m => m.tag)];
+}
+
+// [[Note]], [[Note#Heading|alias]], ![[Embed]] and [text](path/Note.md) link targets
+const LINK_RE = /!?\[\[([^\]|#^\n]+)[^\]\n]*\]\]|\]\(([^)\s]+?\.md)(?:#[^)\s]*)?\)/gi;
+
+/** Outgoing note links per note, resolved like Obsidian: exact vault path, relative path, else the note's name */
+function resolveLinks(notes: Map<string, DiskNote>): Map<string, string[]> {
+  const byName = new Map<string, string>();
+  for (const path of notes.keys()) {
+    const name = noteName(path).toLowerCase();
+    if (!byName.has(name)) byName.set(name, path);   // paths are sorted: the first one wins, as in the plugin's link text
+  }
+  const lower = new Map(Array.from(notes.keys(), p => [p.toLowerCase(), p] as [string, string]));
+  const resolve = (target: string, from: string): string | null => {
+    let t = target.trim();
+    try {
+      t = decodeURIComponent(t);
+    } catch {
+      // Not URI-encoded
+    }
+    const withExt = /\.md$/i.test(t) ? t : `${t}.md`;
+    const relative = nodePath.posix.normalize(nodePath.posix.join(nodePath.posix.dirname(from), withExt));
+    return lower.get(withExt.replace(/^\//, '').toLowerCase()) ?? lower.get(relative.toLowerCase())
+      ?? byName.get(noteName(withExt).toLowerCase()) ?? null;
+  };
+
+  const out = new Map<string, string[]>();
+  notes.forEach((note, path) => {
+    const targets = new Set<string>();
+    LINK_RE.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = LINK_RE.exec(note.body)) !== null) {
+      const target = resolve(m[1] ?? m[2], path);
+      if (target && target !== path) targets.add(target);
+    }
+    out.set(path, Array.from(targets));
+  });
+  return out;
+}
+
+// Link text for [[…]]: the note's name, or its path when another note has the same name
+function linkText(path: string, notes: Map<string, DiskNote>): string {
+  const name = noteName(path);
+  const clash = Array.from(notes.keys()).some(p => p !== path && noteName(p).toLowerCase() === name.toLowerCase());
+  return clash ? path.replace(/\.md$/i, '') : name;
+}
+
+function noteName(path: string): string {
+  return nodePath.posix.basename(path).replace(/\.md$/i, '');
+}
+
+// storage.ts adapter on the local file system; paths are relative to `root`
+function diskAdapter(root: string): FileAdapter {
+  const abs = (p: string) => nodePath.join(root, p);
+  return {
+    exists: p => fs.access(abs(p)).then(() => true, () => false),
+    read: p => fs.readFile(abs(p), 'utf8'),
+    write: async (p, data) => {
+      await fs.mkdir(nodePath.dirname(abs(p)), { recursive: true });
+      await fs.writeFile(abs(p), data, 'utf8');
+    },
+    remove: p => fs.unlink(abs(p)),
+    mkdir: async p => { await fs.mkdir(abs(p), { recursive: true }); },
+  };
+}
+
+/* =========================
+   Run
+   ========================= */
+async function run(opts: CliOptions): Promise<RunReport> {
+  const startedAt = new Date();
+  const { settings, source } = await loadCliSettings(opts);
+  const dir = opts.dir;
+  const paths = await listMarkdownFiles(dir);
+
+  // Read everything once: the tag vocabulary and the TF-IDF corpus need the whole folder anyway
+  const notes = new Map<string, DiskNote>();
+  for (const path of paths) {
+    const file = nodePath.join(dir, path);
+    const raw = await fs.readFile(file, 'utf8');
+    const stat = await fs.stat(file);
+    notes.set(path, { raw, ...splitFrontmatter(raw), ctime: stat.birthtimeMs || stat.mtimeMs, mtime: stat.mtimeMs });
+  }
+  const vaultTags = tagStats(notes);
+
+  const usage = new Map<string, { promptTokens: number; completionTokens: number; cost: number | null }>();
+  const controllers = new Set<AbortController>();
+  // A dry run leaves the stored index alone too
+  const corpusStore = new CorpusStore(opts.dryRun ? null : new JsonFileStore(diskAdapter(dir), VAULT_CORPUS_PATH));
+  let corpus: Promise<CorpusIndex> | null = null;
+  const corpusIndex = () => {
+    if (!corpus) {
+      corpus = corpusStore.refreshed(
+        Array.from(notes, ([path, n]) => ({ path, mtime: n.mtime })),
+        async path => {
+          const note = notes.get(path);
+          return note ? { body: sanitizeBodyForLLM(note.body, Number.POSITIVE_INFINITY, true), tags: noteTags(note) } : { body: '', tags: [] };
+        }
+      );
+    }
+    return corpus;
+  };
+  const usageLog = new UsageLog(new JsonFileStore(diskAdapter(dir), VAULT_USAGE_PATH), () => settings.usageLogMaxEntries);
+  const responseCache = new ResponseCache(new JsonFileStore(diskAdapter(dir), VAULT_CACHE_PATH), () => settings.responseCacheMaxEntries);
+  const budget = { daily: settings.budgetDaily, monthly: settings.budgetMonthly };
+  let links: Map<string, string[]> | null = null;
+  const taxonomies = new Map<string, Promise<Taxonomy>>();
+
+  const host: PipelineHost = {
+    askAI: async (s: FMSettings, format: ResponseFormat, prompt: string, path: string, force: boolean) => {
+      const config = s.providers[s.provider];
+      if (!config) throw new Error('No AI provider selected. Please choose one in plugin settings.');
+      if (getPreset(config.id)?.requiresKey && !config.apiKey) {
+        throw new Error('API key not set. Pass --api-key or set FRONTMATTER_AUTOGEN_API_KEY.');
+      }
+      // Same cache key as the plugin; cached answers are free and skip the budget check
+      const useCache = s.responseCacheEnabled;
+      const cacheKey = hashString(JSON.stringify([config.id, config.baseUrl, config.model, config.jsonMode, format, prompt]));
+      if (useCache && !force) {
+        const hit = await responseCache.get(cacheKey);
+        if (hit) return hit;
+      }
+      await usageLog.checkBudget(budget);
+      const http = withRetries(fetchHttpClient, {
+        timeoutMs: Math.max(0, s.requestTimeoutSeconds) * 1000,
+        retries: s.requestRetries,
+        baseDelayMs: RETRY_BASE_DELAY_MS,
+        maxDelayMs: RETRY_MAX_DELAY_MS,
+      });
+      const controller = new AbortController();
+      controllers.add(controller);
+      try {
+        const { text, usage: reported } = await createProvider(config, http).complete({
+          system: systemPromptFor(format),
+          prompt,
+          temperature: 0.2,
+          json: format === 'json',
+          signal: controller.signal,
+        });
+        // Endpoints that report no usage (some local servers) are estimated from the text
+        const counts = reported ?? { promptTokens: estimateTokens(prompt), completionTokens: estimateTokens(text) };
+        const price = priceFor(s.modelPrices, config.model);
+        const cost = price ? costOf(counts.promptTokens, counts.completionTokens, price) : null;
+        await usageLog.record({ at: Date.now(), path, provider: config.id, model: config.model, ...counts, cost, estimated: !reported });
+        const note = usage.get(path) ?? { promptTokens: 0, completionTokens: 0, cost: 0 };
+        note.promptTokens += counts.promptTokens;
+        note.completionTokens += counts.completionTokens;
+        note.cost = cost !== null && note.cost !== null ? note.cost + cost : null;
+        usage.set(path, note);
+        const parsed = parseAIAnswer(text, format);
+        if (parsed && useCache) await responseCache.set(cacheKey, parsed);
+        return parsed;
+      } finally {
+        controllers.delete(controller);
+      }
+    },
+    loadTaxonomy: async (s: FMSettings) => {
+      const path = s.taxonomyPath.trim();
+      if (!path) return null;
+      if (!taxonomies.has(path)) {
+        taxonomies.set(path, fs.readFile(nodePath.join(dir, path), 'utf8').then(
+          text => {
+            const tree = parseTaxonomy(text, taxonomyFormatFor(path));
+            if (!tree.paths.length) throw new Error(`Taxonomy ${path} has no entries`);
+            return tree;
+          },
+          e => { throw new Error(isNotFound(e) ? `Taxonomy file not found: ${path}` : `Could not read taxonomy ${path}: ${errorMessage(e)}`); }
+        ));
+      }
+      return taxonomies.get(path) as Promise<Taxonomy>;
+    },
+    vaultTags: () => vaultTags,
+    corpus: async () => (await corpusIndex()).stats(),
+    relatedNotes: async (path, body, tags, max) =>
+      (await corpusIndex()).similar(path, body, tags, max).map(n => linkText(n.path, notes)),
+    linkedNotes: async path => {
+      if (!links) links = resolveLinks(notes);
+      const describe = (other: string, direction: LinkedNote['direction']): LinkedNote => {
+        const fm = notes.get(other)?.frontmatter;
+        return {
+          path: other,
+          direction,
+          title: typeof fm?.title === 'string' ? fm.title : null,
+          summary: typeof fm?.summary === 'string' ? fm.summary : null,
+          tags: frontmatterTags(fm?.tags),
+        };
+      };
+      const outgoing = links.get(path) ?? [];
+      const incoming = Array.from(links).filter(([p, targets]) => p !== path && !outgoing.includes(p) && targets.includes(path)).map(([p]) => p);
+      return [...outgoing.map(p => describe(p, 'out')), ...incoming.map(p => describe(p, 'in'))];
+    },
+    notify: (message: string) => console.error(message),
+  };
+
+  const reports = new Map<string, NoteReport>();
+  const processNote = async (path: string) => {
+    const note = notes.get(path);
+    if (!note) throw new Error('File not found');
+    const report: NoteReport = {
+      path, status: 'skipped', changes: [], bodyChanged: false, promptTokens: 0, completionTokens: 0, cost: null,
+    };
+    reports.set(path, report);
+
+    // A broken frontmatter block would be replaced wholesale: leave the note alone
+    const problem = frontmatterProblem(note.raw);
+    if (problem) throw new Error(`Unusable frontmatter (${problem}); fix the YAML first`);
+
+    const { settings: s, profile, problems } = resolveSettingsFor(settings, {
+      path,
+      tags: noteTags(note),
+      frontmatter: note.frontmatter,
+    });
+    if (problems.length) console.error(`Profile "${profile?.profile.name}" has invalid overrides:`, problems);
+
+    const plan = await planNoteUpdate(s, {
+      path,
+      frontmatter: note.frontmatter,
+      body: note.body,
+      createdAt: note.ctime,
+    }, host, { quiet: true, force: opts.force });
+    if ('skipped' in plan) {
+      report.reason = plan.skipped;
+      return;
+    }
+
+    const fm: Record<string, unknown> = { ...(note.frontmatter ?? {}) };
+    applyFields(fm, plan, acceptAll(plan), false);
+    for (const key of new Set([...Object.keys(note.frontmatter ?? {}), ...Object.keys(fm)])) {
+      const from = note.frontmatter?.[key];
+      if (key === CONTENT_HASH_KEY || JSON.stringify(from ?? null) === JSON.stringify(fm[key] ?? null)) continue;
+      report.changes.push({ key, from: from ?? null, to: fm[key] ?? null });
+    }
+    // Inline tags to strip or move: only their spans change, the rest of the body stays as written
+    const bodyEdits = plan.bodyTagMode ? bodyTagEdits(note.raw, plan.bodyTagMode) : [];
+    report.bodyChanged = bodyEdits.length > 0;
+    report.engine = plan.prompt === null ? 'local' : 'ai';
+    report.status = 'updated';
+
+    const next = composeNote(note.raw, fm, bodyEdits);
+    if (!opts.dryRun && next !== note.raw) await fs.writeFile(nodePath.join(dir, path), next, 'utf8');
+  };
+
+  const state = createBatchState(dir, paths);
+  let stopped: string | null = null;
+  const queue = new BatchQueue(state, {
+    settings: { concurrency: settings.batchConcurrency, requestsPerMinute: settings.engine === 'local' ? 0 : settings.batchRequestsPerMinute },
+    worker: async path => {
+      try {
+        await processNote(path);
+      } catch (e) {
+        // Budget cap: stop handing out notes, like the plugin's batch runs
+        if (e instanceof BudgetExceededError && !queue.isCancelled) {
+          queue.cancel();
+          stopped = e.message;
+        }
+        throw e;
+      }
+    },
+  });
+
+  // Ctrl+C: stop handing out notes and abort the calls in flight
+  const onInterrupt = () => {
+    console.error('Interrupted, stopping…');
+    queue.cancel();
+    for (const c of controllers) c.abort();
+  };
+  process.once('SIGINT', onInterrupt);
+  try {
+    await queue.run();
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+    await corpusStore.flush();
+    await usageLog.flush();
+    await responseCache.flush();
+  }
+
+  for (const { path, message } of state.errors) {
+    const report = reports.get(path);
+    if (report) {
+      report.status = 'failed';
+      report.reason = message;
+      report.changes = [];
+    }
+  }
+  for (const [path, used] of usage) {
+    const report = reports.get(path);
+    if (report) Object.assign(report, used);
+  }
+
+  const list = paths.map(p => reports.get(p)).filter((r): r is NoteReport => !!r);
+  const totals = { notes: list.length, updated: 0, skipped: 0, failed: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+  for (const r of list) {
+    totals[r.status]++;
+    totals.promptTokens += r.promptTokens;
+    totals.completionTokens += r.completionTokens;
+    totals.cost += r.cost ?? 0;
+  }
+  return {
+    dir, dryRun: opts.dryRun, startedAt: startedAt.toISOString(), finishedAt: new Date().toISOString(), settings: source, totals, stopped, notes: list,
+  };
+}
+
+/* =========================
+   Output
+   ========================= */
+function printSummary(report: RunReport, out: (line: string) => void) {
+  const verb = report.dryRun ? 'would update' : 'updated';
+  for (const r of report.notes) {
+    if (r.status === 'updated') {
+      const keys = [...r.changes.map(c => c.key), ...(r.bodyChanged ? ['body'] : [])];
+      out(`${verb}  ${r.path}${keys.length ? ` (${keys.join(', ')})` : ''}`);
+    } else if (r.status === 'failed') {
+      out(`failed  ${r.path}: ${r.reason}`);
+    }
+  }
+  const t = report.totals;
+  out(`${t.notes} notes: ${t.updated} ${verb}, ${t.skipped} skipped, ${t.failed} failed` +
+    (t.promptTokens + t.completionTokens ? `; ${t.promptTokens + t.completionTokens} tokens, $${t.cost.toFixed(4)}` : ''));
+  if (report.stopped) out(`Stopped early: ${report.stopped}`);
+}
+
+async function main(argv: string[]): Promise<number> {
+  let opts: CliOptions | null;
+  try {
+    opts = parseArgs(argv);
+  } catch (e) {
+    console.error(`${errorMessage(e)}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!opts) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  let report: RunReport;
+  try {
+    report = await run(opts);
+  } catch (e) {
+    console.error(e instanceof UsageError ? `${e.message}\n\n${USAGE}` : errorMessage(e));
+    return e instanceof UsageError ? 2 : 1;
+  }
+
+  // With the JSON report on stdout, the human summary goes to stderr
+  printSummary(report, opts.jsonReport === '-' ? line => console.error(line) : line => console.log(line));
+  if (opts.jsonReport === '-') process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  else if (opts.jsonReport) await fs.writeFile(opts.jsonReport, `${JSON.stringify(report, null, 2)}\n`, 'utf8');
+  return report.totals.failed ? 1 : 0;
+}
+
+function isNotFound(e: unknown): boolean {
+  return (e as { code?: string } | null)?.code === 'ENOENT';
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+main(process.argv.slice(2)).then(code => { process.exitCode = code; });
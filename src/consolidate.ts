@@ -0,0 +1,192 @@
+// src/consolidate.ts
+// Vault-wide tag consolidation: group near-duplicate tags and rename variants to one canonical tag.
+import { tagKey } from './tags';
+import { editDistance, TagAliasTable, TagStat } from './vocabulary';
+
+/* =========================
+   Types
+   ========================= */
+export type TagGroup = {
+  canonical: string;
+  variants: string[];       // tags renamed to `canonical` (canonical itself excluded)
+  reasons: string[];        // why the tags were grouped
+};
+
+// Pairs of tags judged to be the same concept (e.g. by the AI)
+export type TagPair = { a: string; b: string; reason: string };
+
+// Reasons that leave no doubt; edit-distance and AI groups can join different concepts (model / modal)
+const CERTAIN_REASONS = ['spelling', 'alias table'];
+
+/* =========================
+   Grouping
+   ========================= */
+
+/**
+ * Groups of near-duplicate tags: same key (case/separator/accent), small edit distance,
+ * the alias table, and any extra pairs. The alias canonical wins, otherwise the most used spelling.
+ */
+export function groupSimilarTags(stats: TagStat[], aliases: TagAliasTable, extra: TagPair[] = []): TagGroup[] {
+  const counts = new Map(stats.map(s => [s.tag, s.count]));
+  const uf = new UnionFind();
+  const reasons = new Map<string, Set<string>>();
+  const link = (a: string, b: string, reason: string) => {
+    if (a === b) return;
+    uf.union(a, b);
+    for (const t of [a, b]) {
+      if (!reasons.has(t)) reasons.set(t, new Set());
+      reasons.get(t)?.add(reason);
+    }
+  };
+
+  // Same key: "MachineLearning" / "machine-learning" / "machine_learning"
+  const byKey = new Map<string, string>();
+  for (const { tag } of stats) {
+    const k = tagKey(tag);
+    if (!k) continue;
+    const first = byKey.get(k);
+    if (first) link(first, tag, 'spelling');
+    else byKey.set(k, tag);
+  }
+
+  // Typos / plurals between different keys at the same nesting depth
+  const keys = Array.from(byKey.entries());
+  for (let i = 0; i < keys.length; i++) {
+    const [ka, ta] = keys[i];
+    const maxDist = ka.length >= 10 ? 2 : ka.length >= 5 ? 1 : 0;
+    if (!maxDist) continue;
+    for (let j = i + 1; j < keys.length; j++) {
+      const [kb, tb] = keys[j];
+      if (Math.abs(ka.length - kb.length) > maxDist || kb.length < 5) continue;
+      if (ka.split('/').length !== kb.split('/').length || /^\d|\d$/.test(ka) || /^\d|\d$/.test(kb)) continue;
+      if (editDistance(ka, kb, maxDist) <= maxDist) link(ta, tb, 'similar spelling');
+    }
+  }
+
+  // User synonyms: alias → canonical (matched by key, so spelling variants follow)
+  const preferred = new Set<string>();
+  for (const [canonical, list] of Object.entries(aliases)) {
+    const target = byKey.get(tagKey(canonical)) ?? canonical;
+    preferred.add(target);
+    for (const alias of list) {
+      const t = byKey.get(tagKey(alias));
+      if (t) link(target, t, 'alias table');
+    }
+  }
+
+  for (const p of extra) {
+    if (counts.has(p.a) && counts.has(p.b)) link(p.a, p.b, p.reason);
+  }
+
+  // Collect groups
+  const members = new Map<string, string[]>();
+  for (const tag of reasons.keys()) {
+    const root = uf.find(tag);
+    members.set(root, [...(members.get(root) ?? []), tag]);
+  }
+
+  const groups: TagGroup[] = [];
+  for (const tags of members.values()) {
+    if (tags.length < 2) continue;
+    const sorted = [...tags].sort((a, b) =>
+      Number(preferred.has(b)) - Number(preferred.has(a)) ||
+      (counts.get(b) ?? 0) - (counts.get(a) ?? 0) ||
+      a.localeCompare(b));
+    const groupReasons = new Set(tags.flatMap(t => Array.from(reasons.get(t) ?? [])));
+    groups.push({ canonical: sorted[0], variants: sorted.slice(1), reasons: Array.from(groupReasons) });
+  }
+  groups.sort((a, b) => b.variants.length - a.variants.length || a.canonical.localeCompare(b.canonical));
+  return groups;
+}
+
+/** True when every reason in the group is certain, so the merge can be proposed as accepted */
+export function isCertainGroup(group: TagGroup): boolean {
+  return group.reasons.every(r => CERTAIN_REASONS.includes(r));
+}
+
+class UnionFind {
+  private parent = new Map<string, string>();
+
+  find(x: string): string {
+    let root = x;
+    while (this.parent.has(root) && this.parent.get(root) !== root) root = this.parent.get(root) as string;
+    this.parent.set(x, root);
+    return root;
+  }
+
+  union(a: string, b: string) {
+    const ra = this.find(a);
+    const rb = this.find(b);
+    if (ra !== rb) this.parent.set(rb, ra);
+  }
+}
+
+/* =========================
+   AI clustering
+   ========================= */
+
+export function buildClusterPrompt(tags: string[]): string {
+  return [
+    'Return **JSON only** (no code fences, no extra text).',
+    'Below are tags from a note-taking vault. Find groups of tags that mean the same concept:',
+    'abbreviations (ml = machine learning), synonyms, singular/plural, and translations into other languages.',
+    'Do NOT group tags that are merely related (e.g. "python" and "programming").',
+    'The JSON must have exactly this shape:',
+    '{',
+    '  "groups": string[][]   // each group lists 2+ tags copied exactly from the list',
+    '}',
+    '',
+    'Tags:',
+    tags.join(', '),
+  ].join('\n');
+}
+
+/** Pairs from the AI's groups; tags not in `known` are ignored */
+export function parseClusterPairs(obj: Record<string, unknown> | null, known: Set<string>): TagPair[] {
+  const groups = Array.isArray(obj?.groups) ? obj?.groups as unknown[] : [];
+  const pairs: TagPair[] = [];
+  for (const group of groups) {
+    if (!Array.isArray(group)) continue;
+    const tags = group.map(t => String(t ?? '').replace(/^#/, '').trim()).filter(t => known.has(t));
+    for (let i = 1; i < tags.length; i++) pairs.push({ a: tags[0], b: tags[i], reason: 'AI' });
+  }
+  return pairs;
+}
+
+/* =========================
+   Renaming
+   ========================= */
+
+/** Rename lookup: variant (and its nested children, "ml/basics") → canonical; null when unchanged */
+export function tagRenamer(groups: TagGroup[]): (tag: string) => string | null {
+  const map = new Map<string, string>();
+  for (const g of groups) {
+    for (const v of g.variants) map.set(v.toLowerCase(), g.canonical);
+  }
+  return (tag: string) => {
+    const clean = tag.replace(/^#/, '');
+    const parts = clean.split('/');
+    // Longest matching prefix wins
+    for (let n = parts.length; n > 0; n--) {
+      const target = map.get(parts.slice(0, n).join('/').toLowerCase());
+      if (target === undefined) continue;
+      const next = [target, ...parts.slice(n)].join('/');
+      return next === clean ? null : next;   // already the canonical spelling
+    }
+    return null;
+  };
+}
+
+/** Apply `rename` to a frontmatter tag list; duplicates created by the merge are removed */
+export function renameTagList(tags: string[], rename: (tag: string) => string | null): string[] {
+  const out: string[] = [];
+  const seen = new Set<string>();
+  for (const t of tags) {
+    const next = rename(t) ?? t.replace(/^#/, '');
+    const k = tagKey(next);
+    if (!k || seen.has(k)) continue;
+    seen.add(k);
+    out.push(next);
+  }
+  return out;
+}
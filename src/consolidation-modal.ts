@@ -0,0 +1,121 @@
+// src/consolidation-modal.ts
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { isCertainGroup, TagGroup } from './consolidate';
+
+/* =========================
+   Types
+   ========================= */
+export type MergeReviewOptions = {
+  counts: Map<string, number>;                  // tag → number of notes using it
+  askAI: (() => Promise<TagGroup[]>) | null;    // regroup with AI clustering; null when unavailable
+};
+
+/* =========================
+   Modal
+   ========================= */
+
+/** Review proposed tag merges; resolves with the accepted groups (canonical as chosen) or null when cancelled */
+export function reviewTagMerges(app: App, groups: TagGroup[], opts: MergeReviewOptions): Promise<TagGroup[] | null> {
+  return new Promise(resolve => new TagMergeModal(app, groups, opts, resolve).open());
+}
+
+class TagMergeModal extends Modal {
+  private accepted = new Map<TagGroup, boolean>();
+  private canonical = new Map<TagGroup, string>();
+  private busy = false;
+  private settled = false;
+
+  constructor(app: App, private groups: TagGroup[], private opts: MergeReviewOptions, private resolve: (g: TagGroup[] | null) => void) {
+    super(app);
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.finish(null);
+  }
+
+  private render() {
+    const { contentEl, groups } = this;
+    contentEl.empty();
+    this.setTitle('Consolidate tags');
+
+    contentEl.createEl('p', {
+      text: groups.length
+        ? `${groups.length} group(s) of similar tags. Accepted groups are renamed to the chosen tag in every note (frontmatter and inline tags).`
+        : 'No similar tags found.',
+    });
+
+    for (const group of groups) this.renderGroup(contentEl, group);
+
+    const buttons = new Setting(contentEl);
+    const { askAI } = this.opts;
+    if (askAI) {
+      buttons.addButton(b => b
+        .setButtonText(this.busy ? 'Asking AI…' : 'Find more with AI')
+        .setDisabled(this.busy)
+        .onClick(async () => {
+          this.busy = true;
+          this.render();
+          try {
+            this.groups = await askAI();
+          } catch (e) {
+            new Notice(`AI clustering failed: ${(e as Error).message}`);
+          } finally {
+            this.busy = false;
+            if (!this.settled) this.render();
+          }
+        }));
+    }
+    buttons
+      .addButton(b => b.setButtonText('Cancel').onClick(() => this.finish(null)))
+      .addButton(b => b
+        .setButtonText('Merge accepted')
+        .setCta()
+        .setDisabled(this.busy || !groups.length)
+        .onClick(() => this.finish(this.decision())));
+  }
+
+  private renderGroup(parent: HTMLElement, group: TagGroup) {
+    const members = [group.canonical, ...group.variants];
+    const current = this.canonical.get(group) ?? group.canonical;
+    const count = (t: string) => this.opts.counts.get(t) ?? 0;
+
+    new Setting(parent)
+      .setName(members.map(t => `#${t} (${count(t)})`).join(', '))
+      .setDesc(`Grouped by: ${group.reasons.join(', ')}. Merge into:`)
+      .addDropdown(d => {
+        for (const t of members) d.addOption(t, `#${t}`);
+        d.setValue(current).onChange(v => { this.canonical.set(group, v); });
+      })
+      .addToggle(t => t
+        .setTooltip('Accept this merge')
+        .setValue(this.isAccepted(group))
+        .onChange(v => { this.accepted.set(group, v); }));
+  }
+
+  // Groups found by similar spelling or the AI start unaccepted
+  private isAccepted(group: TagGroup): boolean {
+    return this.accepted.get(group) ?? isCertainGroup(group);
+  }
+
+  private decision(): TagGroup[] {
+    return this.groups
+      .filter(g => this.isAccepted(g))
+      .map(g => {
+        const canonical = this.canonical.get(g) ?? g.canonical;
+        const variants = [g.canonical, ...g.variants].filter(t => t !== canonical);
+        return { canonical, variants, reasons: g.reasons };
+      });
+  }
+
+  private finish(groups: TagGroup[] | null) {
+    if (this.settled) return;
+    this.settled = true;
+    this.resolve(groups);
+    this.close();
+  }
+}
@@ -0,0 +1,43 @@
+// src/corpus-store.ts
+// The vault's TF-IDF index kept on disk between sessions, so only notes changed since the last refresh are re-read.
+import { CorpusIndex, IndexedNote, SerializedCorpus } from './local-engine';
+import { JsonFileStore } from './storage';
+
+export class CorpusStore {
+  private index: CorpusIndex | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** `store` null keeps the index in memory only */
+  constructor(private store: JsonFileStore<SerializedCorpus> | null) {}
+
+  /** The index brought up to date with `files` (loaded from disk on first use) */
+  async refreshed(files: { path: string; mtime: number }[], read: (path: string) => Promise<IndexedNote>): Promise<CorpusIndex> {
+    if (!this.index) this.index = CorpusIndex.fromJSON(this.store ? await this.store.load() : null);
+    if (await this.index.refresh(files, read)) this.scheduleSave();
+    return this.index;
+  }
+
+  async clear() {
+    this.index = new CorpusIndex();
+    if (this.saveTimer !== null) clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.store?.clear();
+  }
+
+  /** Write pending changes now (e.g. on unload) */
+  async flush() {
+    if (this.saveTimer === null) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    if (this.index && this.store) await this.store.save(this.index.toJSON());
+  }
+
+  // Every run touches its own note; coalesce writes during batches
+  private scheduleSave() {
+    if (this.saveTimer !== null || !this.store) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      if (this.index && this.store) this.store.save(this.index.toJSON()).catch(e => console.error('Failed to save corpus index:', e));
+    }, 5000);
+  }
+}
@@ -0,0 +1,47 @@
+// src/glob.ts
+
+/* =========================
+   Path globs
+   ========================= */
+
+/**
+ * Vault-path glob: `**` any depth, `*` within one segment, `?` one character.
+ * A pattern without wildcards matches that folder (and everything below it) or that exact file.
+ */
+export function matchGlob(path: string, pattern: string): boolean {
+  const p = pattern.trim().replace(/^\/+|\/+$/g, '');
+  if (!p) return false;
+  if (!/[*?]/.test(p)) return path === p || path.startsWith(`${p}/`);
+  return globToRegExp(p).test(path);
+}
+
+export function matchAnyGlob(path: string, patterns: string[]): boolean {
+  return patterns.some(p => matchGlob(path, p));
+}
+
+export function globToRegExp(pattern: string): RegExp {
+  let re = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches zero or more folders
+        const slash = pattern[i + 2] === '/';
+        re += slash ? '(?:.*/)?' : '.*';
+        i += slash ? 2 : 1;
+      } else {
+        re += '[^/]*';
+      }
+    } else if (c === '?') {
+      re += '[^/]';
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** Comma/newline-separated list from a settings text field */
+export function parseList(text: string): string[] {
+  return text.split(/[,\n]/).map(x => x.trim()).filter(Boolean);
+}
@@ -0,0 +1,58 @@
+// src/history-modal.ts
+import { App, Modal, Setting } from 'obsidian';
+import type { HistoryEntry, HistoryStore } from './history';
+
+/** Per-file history: restore or delete earlier versions */
+export class HistoryModal extends Modal {
+  constructor(
+    app: App,
+    private path: string,
+    private store: HistoryStore,
+    private onRestore: (entry: HistoryEntry) => Promise<void>
+  ) {
+    super(app);
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.setTitle(`Frontmatter history: ${this.path}`);
+
+    const entries = await this.store.list(this.path);
+    if (!entries.length) {
+      contentEl.createEl('p', { text: 'No saved versions for this note.' });
+      return;
+    }
+
+    for (const entry of entries) {
+      const when = new Date(entry.timestamp).toLocaleString();
+      const what = entry.reason === 'restore'
+        ? 'Before restore'
+        : entry.reason === 'tags'
+          ? 'Before tag consolidation'
+          : `Before update${entry.model ? ` (${entry.model})` : ''}`;
+
+      new Setting(contentEl)
+        .setName(when)
+        .setDesc(`${what} · ${entry.size} chars${entry.promptHash ? ` · prompt ${entry.promptHash.slice(0, 8)}` : ''}`)
+        .addButton(b => b
+          .setButtonText('Restore')
+          .setCta()
+          .onClick(async () => {
+            await this.onRestore(entry);
+            this.close();
+          }))
+        .addExtraButton(b => b
+          .setIcon('trash')
+          .setTooltip('Delete this version')
+          .onClick(async () => {
+            await this.store.remove(entry);
+            await this.onOpen();
+          }));
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,161 @@
+// src/history.ts
+// Snapshots of note content taken before each frontmatter run, for undo/restore.
+import { ensureDir, FileAdapter, JsonFileStore } from './storage';
+
+/* =========================
+   Types
+   ========================= */
+export type HistoryEntry = {
+  id: string;
+  path: string;
+  timestamp: number;
+  reason: 'run' | 'restore' | 'tags';   // restore = replaced by a history restore, tags = tag consolidation
+  provider?: string;
+  model?: string;
+  promptHash?: string;
+  resultHash?: string;   // hash of the note as the run left it; unset when unknown
+  size: number;
+};
+
+export type HistoryLimits = {
+  maxPerFile: number;   // 0 = unlimited
+  maxEntries: number;   // 0 = unlimited
+  maxAgeDays: number;   // 0 = unlimited
+};
+
+/* =========================
+   Store
+   ========================= */
+export class HistoryStore {
+  private index: JsonFileStore<HistoryEntry[]>;
+  private entries: HistoryEntry[] | null = null;
+  private chain: Promise<unknown> = Promise.resolve();
+
+  constructor(private adapter: FileAdapter, private dir: string, private limits: () => HistoryLimits) {
+    this.index = new JsonFileStore(adapter, `${dir}/index.json`);
+  }
+
+  /** Snapshot `content` of `path` before it is rewritten */
+  record(path: string, content: string, meta: Partial<Pick<HistoryEntry, 'reason' | 'provider' | 'model' | 'promptHash'>> = {}) {
+    return this.serial(async () => {
+      const entries = await this.load();
+      const timestamp = Date.now();
+      const entry: HistoryEntry = {
+        id: `${timestamp.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        path,
+        timestamp,
+        reason: meta.reason ?? 'run',
+        provider: meta.provider,
+        model: meta.model,
+        promptHash: meta.promptHash,
+        size: content.length,
+      };
+      await ensureDir(this.adapter, this.dir);
+      await this.adapter.write(this.snapshotPath(entry), content);
+      entries.push(entry);
+      await this.prune(entries);
+      await this.index.save(entries);
+      return entry;
+    });
+  }
+
+  /** Remember what the run wrote, so undo can tell whether the note was edited since */
+  setResult(entry: HistoryEntry, resultHash: string) {
+    return this.serial(async () => {
+      const entries = await this.load();
+      const stored = entries.find(e => e.id === entry.id);
+      if (!stored) return;
+      stored.resultHash = resultHash;
+      entry.resultHash = resultHash;
+      await this.index.save(entries);
+    });
+  }
+
+  /** Entries for one file (or all), newest first */
+  async list(path?: string): Promise<HistoryEntry[]> {
+    const entries = await this.serial(() => this.load());
+    return entries
+      .filter(e => path === undefined || e.path === path)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  async latest(): Promise<HistoryEntry | null> {
+    return (await this.list())[0] ?? null;
+  }
+
+  read(entry: HistoryEntry): Promise<string> {
+    return this.adapter.read(this.snapshotPath(entry));
+  }
+
+  remove(entry: HistoryEntry) {
+    return this.serial(async () => {
+      const entries = await this.load();
+      const i = entries.findIndex(e => e.id === entry.id);
+      if (i === -1) return;
+      entries.splice(i, 1);
+      await this.deleteSnapshot(entry);
+      await this.index.save(entries);
+    });
+  }
+
+  /** Keep history attached to a note when it is renamed/moved */
+  rename(oldPath: string, newPath: string) {
+    return this.serial(async () => {
+      const entries = await this.load();
+      let changed = false;
+      for (const e of entries) {
+        if (e.path === oldPath) {
+          e.path = newPath;
+          changed = true;
+        }
+      }
+      if (changed) await this.index.save(entries);
+    });
+  }
+
+  // === internals ===
+  private async load(): Promise<HistoryEntry[]> {
+    if (!this.entries) this.entries = (await this.index.load()) ?? [];
+    return this.entries;
+  }
+
+  // Apply retention limits: age, per-file count, total count (oldest go first)
+  private async prune(entries: HistoryEntry[]) {
+    const { maxPerFile, maxEntries, maxAgeDays } = this.limits();
+    const now = Date.now();
+    const sorted = [...entries].sort((a, b) => b.timestamp - a.timestamp);
+    const perFile = new Map<string, number>();
+    const keep: HistoryEntry[] = [];
+    const drop: HistoryEntry[] = [];
+
+    for (const e of sorted) {
+      const n = (perFile.get(e.path) ?? 0) + 1;
+      perFile.set(e.path, n);
+      const tooOld = maxAgeDays > 0 && now - e.timestamp > maxAgeDays * 86400000;
+      const tooMany = (maxPerFile > 0 && n > maxPerFile) || (maxEntries > 0 && keep.length >= maxEntries);
+      (tooOld || tooMany ? drop : keep).push(e);
+    }
+
+    for (const e of drop) await this.deleteSnapshot(e);
+    entries.splice(0, entries.length, ...keep.reverse());
+  }
+
+  private async deleteSnapshot(entry: HistoryEntry) {
+    try {
+      await this.adapter.remove(this.snapshotPath(entry));
+    } catch (e) {
+      console.error('Failed to delete history snapshot:', entry.id, e);
+    }
+  }
+
+  private snapshotPath(entry: HistoryEntry) {
+    return `${this.dir}/${entry.id}.md`;
+  }
+
+  // Index updates are read-modify-write; serialize them (batch runs record concurrently)
+  private serial<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.chain.then(fn, fn);
+    this.chain = next.catch(() => undefined);
+    return next;
+  }
+}
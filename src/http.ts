@@ -0,0 +1,170 @@
+// src/http.ts
+// Timeouts, retries with backoff and cancellation around any HttpClient; error classification.
+import type { HttpClient, HttpRequest, HttpResponse } from './providers';
+
+/* =========================
+   Types
+   ========================= */
+export type RetryOptions = {
+  timeoutMs: number;     // per attempt; 0 = no timeout
+  retries: number;       // extra attempts after the first
+  baseDelayMs: number;   // first backoff, doubled per attempt
+  maxDelayMs: number;    // upper bound for backoff and Retry-After
+};
+
+export type FailureKind = 'auth' | 'quota' | 'rate-limit' | 'model' | 'context' | 'server' | 'response' | 'other';
+
+/** The request was aborted: by the user (cancelled) or by the per-attempt timeout */
+export class RequestAbortedError extends Error {
+  constructor(readonly reason: 'cancelled' | 'timeout', timeoutMs = 0) {
+    super(reason === 'cancelled' ? 'AI request cancelled' : `AI request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/** The endpoint could not be reached (DNS, refused connection, CORS, TLS…) */
+export class NetworkError extends Error {
+  constructor(readonly url: string, cause: unknown) {
+    super(`Cannot reach ${originOf(url)}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'NetworkError';
+  }
+}
+
+/* =========================
+   Classification
+   ========================= */
+const QUOTA_RE = /quota|billing|insufficient|credit|exceeded your current/i;
+const MODEL_RE = /model[^.\n]{0,80}(not[ _]found|does not exist|unknown|not supported)|no such model|unknown model/i;
+const CONTEXT_RE = /context[ _]length|context window|too long|too many tokens|maximum[^.\n]{0,40}tokens|token limit|prompt is too long/i;
+
+/** What a failed response means, from its status and body */
+export function classifyFailure(status: number, body: string): FailureKind {
+  if (status >= 200 && status < 300) return 'response';   // success status, body not usable
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402 || (status === 429 && QUOTA_RE.test(body))) return 'quota';
+  if (status === 429) return 'rate-limit';
+  if (MODEL_RE.test(body) || status === 404) return 'model';
+  if ((status === 400 || status === 413) && CONTEXT_RE.test(body)) return 'context';
+  if (status >= 500) return 'server';
+  return 'other';
+}
+
+export const FAILURE_MESSAGES: Record<FailureKind, string> = {
+  auth: 'authentication failed, check the API key',
+  quota: 'quota or billing limit reached on the provider account',
+  'rate-limit': 'rate limited, try again later or lower the requests per minute',
+  model: 'model not found, check the model name',
+  context: 'prompt too long for the model, enable long-note mode or use a model with a larger context',
+  server: 'server error at the provider',
+  response: 'unreadable response',
+  other: 'request rejected',
+};
+
+// 408/429 and gateway/overload errors are worth another try; quota errors are not
+function isRetryable(res: HttpResponse): boolean {
+  if (res.status === 429) return classifyFailure(res.status, res.text) !== 'quota';
+  return res.status === 408 || res.status === 500 || res.status === 502 || res.status === 503 || res.status === 504 || res.status === 529;
+}
+
+/* =========================
+   Retry wrapper
+   ========================= */
+
+/** HttpClient with a per-attempt timeout, cancellation via `req.signal` and exponential backoff honoring Retry-After */
+export function withRetries(http: HttpClient, opts: RetryOptions): HttpClient {
+  return async (req: HttpRequest) => {
+    const attempts = Math.max(0, Math.floor(opts.retries)) + 1;
+    for (let attempt = 1; ; attempt++) {
+      if (req.signal?.aborted) throw new RequestAbortedError('cancelled');
+
+      let res: HttpResponse;
+      try {
+        res = await attemptOnce(http, req, opts.timeoutMs);
+      } catch (e) {
+        // User cancellation is final; timeouts and network errors are retried
+        if (e instanceof RequestAbortedError && e.reason === 'cancelled') throw e;
+        if (attempt >= attempts) throw e;
+        const wait = backoff(opts, attempt);
+        console.warn(`AI request failed (${e instanceof Error ? e.message : String(e)}), retry ${attempt}/${attempts - 1} in ${wait}ms`);
+        await sleep(wait, req.signal);
+        continue;
+      }
+
+      if (!isRetryable(res) || attempt >= attempts) return res;
+      const wait = Math.min(opts.maxDelayMs, retryAfterMs(res.headers) ?? backoff(opts, attempt));
+      console.warn(`AI request got HTTP ${res.status}, retry ${attempt}/${attempts - 1} in ${wait}ms`);
+      await sleep(wait, req.signal);
+    }
+  };
+}
+
+async function attemptOnce(http: HttpClient, req: HttpRequest, timeoutMs: number): Promise<HttpResponse> {
+  // One controller per attempt, aborted by the caller's signal or the timeout
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  req.signal?.addEventListener('abort', onAbort);
+  const timer = timeoutMs > 0 ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs) : null;
+  try {
+    return await http({ ...req, signal: controller.signal });
+  } catch (e) {
+    if (timedOut) throw new RequestAbortedError('timeout', timeoutMs);
+    if (req.signal?.aborted) throw new RequestAbortedError('cancelled');
+    if (e instanceof RequestAbortedError || e instanceof NetworkError) throw e;
+    throw new NetworkError(req.url, e);
+  } finally {
+    if (timer !== null) clearTimeout(timer);
+    req.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Exponential backoff with jitter: base, 2×base, 4×base… (capped)
+function backoff(opts: RetryOptions, attempt: number): number {
+  const exp = opts.baseDelayMs * 2 ** (attempt - 1);
+  return Math.round(Math.min(opts.maxDelayMs, exp * (0.75 + Math.random() * 0.5)));
+}
+
+/** Retry-After as delay-seconds or an HTTP date; null when absent or invalid */
+export function retryAfterMs(headers: Record<string, string>, now = Date.now()): number | null {
+  const key = Object.keys(headers).find(k => k.toLowerCase() === 'retry-after');
+  const value = key ? headers[key].trim() : '';
+  if (!value) return null;
+  if (/^\d+(\.\d+)?$/.test(value)) return Math.round(Number(value) * 1000);
+  const at = Date.parse(value);
+  return Number.isNaN(at) ? null : Math.max(0, at - now);
+}
+
+/** Resolves after `ms`, or rejects as cancelled when `signal` aborts first */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new RequestAbortedError('cancelled'));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError('cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Reject with RequestAbortedError when `signal` aborts (for transports that cannot be aborted themselves) */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(new RequestAbortedError('cancelled'));
+    const onAbort = () => reject(new RequestAbortedError('cancelled'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      v => { signal.removeEventListener('abort', onAbort); resolve(v); },
+      e => { signal.removeEventListener('abort', onAbort); reject(e); }
+    );
+  });
+}
+
+function originOf(url: string): string {
+  const m = url.match(/^[a-z][a-z0-9+.-]*:\/\/[^/?#]+/i);
+  return m ? m[0] : url;
+}
@@ -0,0 +1,222 @@
+// src/inline-tags.ts
+// Inline #tags in the note body: Markdown-aware extraction and strip / keep / move rewrites as span edits.
+import { formatExistingTag } from './tags';
+
+/* =========================
+   Types
+   ========================= */
+export type InlineTagMode = 'strip' | 'keep' | 'move';
+
+export const INLINE_TAG_MODE_LABELS: Record<InlineTagMode, string> = {
+  strip: 'Remove from the body',
+  keep: 'Keep in place',
+  move: 'Move to a tag line at the end',
+};
+
+export type InlineTagResult = {
+  inlineTags: string[];   // formatted, deduplicated
+  body: string;           // body after applying the mode
+};
+
+/** Replace `text.slice(from, to)` with `text`; offsets refer to the original string */
+export type TextEdit = { from: number; to: number; text: string };
+
+/* =========================
+   Scanner
+   ========================= */
+
+// Constructs where "#" never starts a tag, tried before the tag pattern at each position.
+// Lookbehind-free (older mobile WebViews): the character before a tag is captured instead.
+const SKIP_PATTERNS = [
+  '^[ \\t]*(?:>[ \\t]*)*(`{3,}|~{3,})[^\\n]*(?:\\n[\\s\\S]*?\\n[ \\t]*(?:>[ \\t]*)*\\1[`~]*[ \\t]*\\r?(?=\\n|$)|[\\s\\S]*$)',  // fenced code (also in callouts)
+  '(`+)(?:(?!\\n[ \\t]*\\n)[^`])[\\s\\S]*?\\2',  // inline code (within a paragraph)
+  '\\$\\$[\\s\\S]*?\\$\\$',                // math block
+  '\\$(?=\\S)[^$\\n]*?[^\\s\\\\]\\$',      // inline math
+  '<!--[\\s\\S]*?-->',                     // HTML comment
+  '%%[\\s\\S]*?%%',                        // Obsidian comment
+  '<[A-Za-z/][^>\\n]*>',                   // HTML tag (e.g. style="color:#fff")
+  '!?\\[\\[[^\\]\\n]*\\]\\]',              // wikilink / embed ([[Note#Heading]])
+  '\\]\\([^)\\n]*\\)',                     // Markdown link destination
+  '\\[![^\\]\\n]*\\]',                     // callout type
+  '[a-z][a-z0-9+.-]*://[^\\s<>()\\[\\]]+', // bare URL with #fragment
+  '&#x?[0-9A-Za-z]+;',                     // HTML entity
+];
+
+// Tag: letters/digits of any script, "_", "-", "/" (nesting); must not be all digits
+const TAG_PATTERN = '(^|[\\s(\\[{:>])#([\\p{L}\\p{M}\\p{N}_\\-/]+)';
+
+const SCAN_RE = new RegExp(`${SKIP_PATTERNS.join('|')}|${TAG_PATTERN}`, 'gmu');
+
+type TagMatch = { start: number; end: number; tag: string };
+
+/** Inline tags in `text` (offsets exclude the captured prefix character) */
+export function findInlineTags(text: string): TagMatch[] {
+  const out: TagMatch[] = [];
+  SCAN_RE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = SCAN_RE.exec(text)) !== null) {
+    const [full, , , prefix, raw] = m;
+    if (raw === undefined) continue;   // skipped construct
+    const tag = raw.replace(/^\/+|\/+$/g, '');
+    if (!tag || !/[^\p{N}/]/u.test(tag)) continue;   // "#1984" is not a tag
+    const start = m.index + prefix.length;
+    out.push({ start, end: m.index + full.length, tag });
+  }
+  return out;
+}
+
+/* =========================
+   Modes
+   ========================= */
+
+/** Collect inline tags and rewrite the body for `mode` */
+export function extractInlineTags(text: string, mode: InlineTagMode): InlineTagResult {
+  const matches = findInlineTags(text);
+  const inlineTags = uniqueBy(matches.map(x => formatExistingTag(x.tag)).filter(Boolean), t => t);
+  return { inlineTags, body: applyEdits(text, editsFor(text, matches, mode)) };
+}
+
+/**
+ * The `mode` rewrite as minimal span edits: only tag text, the spacing it leaves behind and lines
+ * it empties are touched; other whitespace and line endings stay as they are.
+ */
+export function inlineTagEdits(text: string, mode: InlineTagMode): TextEdit[] {
+  return editsFor(text, findInlineTags(text), mode);
+}
+
+/** Apply non-overlapping edits (any order) to `text` */
+export function applyEdits(text: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort((a, b) => a.from - b.from || a.to - b.to);
+  let out = '';
+  let pos = 0;
+  for (const e of sorted) {
+    out += text.slice(pos, e.from) + e.text;
+    pos = e.to;
+  }
+  return out + text.slice(pos);
+}
+
+/** Rewrite inline tags in place; `rename` returns the new tag (without "#") or null to keep it */
+export function renameInlineTags(text: string, rename: (tag: string) => string | null): string {
+  const matches = findInlineTags(text);
+  let out = text;
+  for (let i = matches.length - 1; i >= 0; i--) {
+    const { start, end, tag } = matches[i];
+    const next = rename(tag);
+    if (next === null || next === tag || out.slice(start + 1, start + 1 + tag.length) !== tag) continue;
+    // Keep a trailing "/" that was not part of the tag
+    out = out.slice(0, start) + `#${next}` + out.slice(start + 1 + tag.length, end) + out.slice(end);
+  }
+  return out;
+}
+
+/* =========================
+   Span edits
+   ========================= */
+
+type Line = { start: number; end: number; next: number };   // end excludes "\r\n" / "\n"; next = start of the next line
+
+function editsFor(text: string, matches: TagMatch[], mode: InlineTagMode): TextEdit[] {
+  if (mode === 'keep' || !matches.length) return [];
+  const lines = splitLines(text);
+  const isBlank = (l: Line) => !text.slice(l.start, l.end).replace(/[\u200B-\u200D\uFEFF]/g, '').trim();
+  const edits: TextEdit[] = [];
+  const emptied = new Set<number>();
+
+  // Per line: drop each tag with one following space; a line left blank goes as a whole below
+  let m = 0;
+  lines.forEach((line, i) => {
+    const ranges: { from: number; to: number }[] = [];
+    for (; m < matches.length && matches[m].start < line.next; m++) {
+      const { start, end } = matches[m];
+      const to = end + (text[end] === ' ' || text[end] === '\t' ? 1 : 0);
+      const last = ranges[ranges.length - 1];
+      if (last && start <= last.to) last.to = Math.max(last.to, to);
+      else ranges.push({ from: start, to });
+    }
+    if (!ranges.length) return;
+    let rest = '';
+    let pos = line.start;
+    for (const r of ranges) {
+      rest += text.slice(pos, r.from);
+      pos = r.to;
+    }
+    rest += text.slice(pos, line.end);
+    if (!rest.replace(/[\u200B-\u200D\uFEFF]/g, '').trim()) {
+      emptied.add(i);
+      return;
+    }
+    // A tag at the end of the line takes the spacing before it, so no trailing blanks are left
+    const last = ranges[ranges.length - 1];
+    if (!text.slice(last.to, line.end).trim()) {
+      const floor = ranges.length > 1 ? ranges[ranges.length - 2].to : line.start;
+      while (last.from > floor && (text[last.from - 1] === ' ' || text[last.from - 1] === '\t')) last.from--;
+    }
+    for (const r of ranges) edits.push({ ...r, text: '' });
+  });
+
+  // Emptied lines go with their line break; a blank line they leave doubled goes too
+  const isEnd = (i: number) => i >= lines.length || (i === lines.length - 1 && lines[i].start === text.length);
+  for (let a = 0; a < lines.length; a++) {
+    if (!emptied.has(a)) continue;
+    let b = a;
+    while (emptied.has(b + 1)) b++;
+    const prev = a > 0 ? lines[a - 1] : null;
+    const atEnd = isEnd(b + 1);
+    const nextBlank = !atEnd && isBlank(lines[b + 1]);
+    let from: number;
+    let to: number;
+    if (lines[b].next > lines[b].end) {
+      from = lines[a].start;
+      to = lines[b].next;
+      if (prev && isBlank(prev) && (atEnd || nextBlank)) from = prev.start;
+      else if (!prev && nextBlank) to = lines[b + 1].next;
+    } else {
+      // Last line without a line break: take the break before it instead
+      from = prev ? prev.end : 0;
+      to = text.length;
+      if (prev && isBlank(prev)) from = a > 1 ? lines[a - 2].end : 0;
+    }
+    edits.push({ from, to, text: '' });
+    a = b;
+  }
+
+  if (mode === 'move') {
+    const line = uniqueBy(matches.map(x => x.tag), t => t.toLowerCase()).map(t => `#${t}`).join(' ');
+    const stripped = applyEdits(text, edits);
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    let insert: string;
+    if (!stripped) insert = line;
+    else if (/\n[ \t]*\r?\n$/.test(stripped)) insert = `${line}${eol}`;
+    else if (stripped.endsWith('\n')) insert = `${eol}${line}${eol}`;
+    else insert = `${eol}${eol}${line}`;
+    edits.push({ from: text.length, to: text.length, text: insert });
+    // Tags already on the closing tag line: nothing to do
+    if (applyEdits(text, edits) === text) return [];
+  }
+  return edits;
+}
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (;;) {
+    const nl = text.indexOf('\n', start);
+    if (nl === -1) {
+      lines.push({ start, end: text.length, next: text.length });
+      return lines;
+    }
+    lines.push({ start, end: nl > start && text[nl - 1] === '\r' ? nl - 1 : nl, next: nl + 1 });
+    start = nl + 1;
+  }
+}
+
+function uniqueBy<T>(items: T[], key: (x: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(x => {
+    const k = key(x);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
@@ -0,0 +1,118 @@
+// src/languages.ts
+import { stopwordsFor } from './stopwords';
+
+/* =========================
+   Tag languages
+   ========================= */
+// When a language applies: to every note, or only to notes whose body is detected to contain it
+export type TagLangWhen = 'always' | 'detected';
+
+export const TAG_LANG_WHEN_LABELS: Record<TagLangWhen, string> = {
+  always: 'Every note',
+  detected: 'Only notes written in it',
+};
+
+export type TagLang = { code: string; max: number; when?: TagLangWhen };   // when: 'always' if unset
+
+export const TAG_LANG_LABELS: Record<string, string> = {
+  en: 'English',
+  ko: '한국어',
+  ja: '日本語',
+  zh: '中文',
+  es: 'Español',
+  de: 'Deutsch',
+  fr: 'Français',
+};
+
+// Example AI tags per language (tag format preview in settings)
+export const TAG_FORMAT_SAMPLES: Record<string, string[]> = {
+  en: ['civil rights', 'US Constitution'],
+  ko: ['세계 역사', 'AI 윤리'],
+  ja: ['機械 学習', 'ＡＩ 倫理'],
+  zh: ['人工 智能'],
+  es: ['derechos civiles', 'Revolución Francesa'],
+  de: ['Künstliche Intelligenz'],
+  fr: ["droits de l'homme", 'Révolution française'],
+};
+
+/* =========================
+   Script rules (used to validate AI tags)
+   ========================= */
+const HANGUL = /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/;
+const KANA = /[\u3040-\u30FF\u31F0-\u31FF]/;
+const HAN = /[\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]/;
+const ASCII_WORD = /^[A-Za-z0-9 _\-/&.'+]+$/;
+const LATIN_WORD = /^[A-Za-z\u00C0-\u024F0-9 _\-/&.'+]+$/;
+const HAS_LETTER = /[A-Za-z\u00C0-\u024F]/;
+
+/** Returns a human-readable problem when `tag` is not written in the language's script, else null */
+export function checkTagScript(code: string, tag: string): string | null {
+  switch (code) {
+    case 'ko':
+      return HANGUL.test(tag) ? null : 'must contain Hangul';
+    case 'ja':
+      return (KANA.test(tag) || HAN.test(tag)) && !HANGUL.test(tag)
+        ? null : 'must be Japanese (Hiragana/Katakana/Kanji)';
+    case 'zh':
+      return HAN.test(tag) && !KANA.test(tag) && !HANGUL.test(tag)
+        ? null : 'must contain Chinese Han characters';
+    case 'en':
+      return ASCII_WORD.test(tag) && HAS_LETTER.test(tag) ? null : 'must be English (Latin letters)';
+    case 'es':
+    case 'de':
+    case 'fr':
+      return LATIN_WORD.test(tag) && HAS_LETTER.test(tag)
+        ? null : `must be ${TAG_LANG_LABELS[code]} (Latin letters)`;
+    default:
+      return null;
+  }
+}
+
+/* =========================
+   Language detection
+   ========================= */
+// Share of a note's letters a language needs before its 'detected' entry applies
+export const DETECT_MIN_SHARE = 0.15;
+
+const LATIN_LETTER = /[A-Za-z\u00C0-\u024F]/;
+
+/** Share of the letters in `text` per language code; Latin letters go to the Latin-script language with the most stopwords */
+export function detectLanguages(text: string): Record<string, number> {
+  const count = (re: RegExp) => (text.match(new RegExp(re.source, 'g')) ?? []).length;
+  const hangul = count(HANGUL);
+  const kana = count(KANA);
+  const han = count(HAN);
+  const latin = count(LATIN_LETTER);
+  const total = hangul + kana + han + latin;
+  const out: Record<string, number> = {};
+  if (!total) return out;
+  if (hangul) out.ko = hangul / total;
+  // Kanji next to kana are Japanese; Han on its own is Chinese
+  if (kana) out.ja = (kana + han) / total;
+  else if (han) out.zh = han / total;
+  if (latin) out[latinLanguage(text)] = latin / total;
+  return out;
+}
+
+/** The entries of `langs` that apply to `text` ('detected' ones only when the text is partly in that language) */
+export function tagLangsFor(langs: TagLang[], text: string): TagLang[] {
+  if (!langs.some(l => l.when === 'detected')) return langs;
+  const shares = detectLanguages(text);
+  return langs.filter(l => l.when !== 'detected' || (shares[l.code] ?? 0) >= DETECT_MIN_SHARE);
+}
+
+// Latin-script language with the most stopword hits (English when none match)
+function latinLanguage(text: string): string {
+  const words = text.toLowerCase().split(/[^\p{L}']+/u);
+  let best = 'en';
+  let bestHits = 0;
+  for (const code of ['en', 'es', 'de', 'fr']) {
+    const stop = stopwordsFor(code);
+    const hits = words.filter(w => stop.has(w)).length;
+    if (hits > bestHits) {
+      best = code;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,496 @@
+// src/local-engine.ts
+// Offline heuristic engine: title, extractive summary and keyword tags without an LLM.
+// Produces the same object shape as the AI answer, so validation and writing are shared.
+import { checkTagScript, TagLang } from './languages';
+import { SchemaField } from './schema';
+import { isStopword, stopwordsFor } from './stopwords';
+import { formatTag, tagCaseFor, TagFormatPolicy, tagKey } from './tags';
+import { Taxonomy } from './taxonomy';
+
+/* =========================
+   Types
+   ========================= */
+export type EngineMode = 'ai' | 'local' | 'fallback';
+
+export const ENGINE_MODE_LABELS: Record<EngineMode, string> = {
+  ai: 'AI',
+  local: 'Local (offline, no AI)',
+  fallback: 'AI, local when the API fails',
+};
+
+export type KeywordMethod = 'tfidf' | 'rake';
+
+export const KEYWORD_METHOD_LABELS: Record<KeywordMethod, string> = {
+  tfidf: 'TF-IDF against the vault',
+  rake: 'RAKE (key phrases)',
+};
+
+export type SummaryMethod = 'lead' | 'scored';
+
+export const SUMMARY_METHOD_LABELS: Record<SummaryMethod, string> = {
+  lead: 'Leading sentences',
+  scored: 'Highest-scoring sentences',
+};
+
+// Document frequencies of terms across the vault
+export type CorpusStats = { docs: number; df: Map<string, number> };
+
+// What the index keeps of one note
+export type IndexedNote = { body: string; tags: string[] };
+
+// A similar note and its score (TF-IDF cosine plus the shared-tag bonus)
+export type SimilarNote = { path: string; score: number };
+
+// On-disk form of the index; document frequencies are rebuilt on load
+export type SerializedCorpus = {
+  version: number;
+  docs: Record<string, { mtime: number; tf: Record<string, number>; tags: string[] }>;
+};
+
+export type LocalInput = {
+  basename: string;
+  body: string;
+  fields: SchemaField[];
+  tagLangs: TagLang[];
+  tagFormats: TagFormatPolicy;   // tags come out in each language's style, as AI tags are written
+  keywordMethod: KeywordMethod;
+  summaryMethod: SummaryMethod;
+  corpus: CorpusStats | null;
+  taxonomy: { tree: Taxonomy; max: number } | null;
+};
+
+type Keyword = { term: string; score: number };
+
+const DEFAULT_TITLE_MAX = 120;
+const DEFAULT_SUMMARY_MAX = 300;
+const SUMMARY_SENTENCES = 3;
+
+// Bump when tokenization changes so stored indexes are rebuilt
+const CORPUS_INDEX_VERSION = 1;
+// Terms of the note that take part in similarity (highest TF-IDF first)
+const SIMILARITY_TERMS = 50;
+// Weight of the shared-tag overlap (Jaccard) next to the text cosine, and the least score that counts as related
+const SHARED_TAG_WEIGHT = 0.3;
+const MIN_SIMILARITY = 0.05;
+
+/* =========================
+   Corpus
+   ========================= */
+
+/** Per-note term counts and tags with vault-wide document frequencies, refreshed incrementally by mtime */
+export class CorpusIndex {
+  private docs = new Map<string, { mtime: number; tf: Map<string, number>; tags: string[] }>();
+  private df = new Map<string, number>();
+  private norms = new Map<string, number>();   // TF-IDF vector lengths, reset when df changes
+
+  /** Re-reads changed notes and drops deleted ones; true when anything changed */
+  async refresh(files: { path: string; mtime: number }[], read: (path: string) => Promise<IndexedNote>): Promise<boolean> {
+    let changed = false;
+    const live = new Set(files.map(f => f.path));
+    for (const path of Array.from(this.docs.keys())) {
+      if (!live.has(path)) changed = this.remove(path) || changed;
+    }
+    for (const f of files) {
+      if (this.docs.get(f.path)?.mtime === f.mtime) continue;
+      const note = await read(f.path);
+      this.remove(f.path);
+      this.add(f.path, f.mtime, termCounts(tokenize(plainText(note.body))), note.tags.map(tagKey));
+      changed = true;
+    }
+    if (changed) this.norms.clear();
+    return changed;
+  }
+
+  stats(): CorpusStats {
+    return { docs: this.docs.size, df: this.df };
+  }
+
+  /** Notes most like `body` (best first): cosine of the TF-IDF vectors plus a bonus for shared tags */
+  similar(path: string, body: string, tags: string[], max: number): SimilarNote[] {
+    const corpus = this.stats();
+    const query = tfidf(termCounts(tokenize(plainText(body))), corpus).slice(0, SIMILARITY_TERMS);
+    const queryNorm = Math.sqrt(query.reduce((sum, k) => sum + k.score * k.score, 0));
+    const tagSet = new Set(tags.map(tagKey));
+
+    const out: SimilarNote[] = [];
+    this.docs.forEach((doc, other) => {
+      if (other === path) return;
+      let dot = 0;
+      for (const { term, score } of query) {
+        const n = doc.tf.get(term);
+        if (n) dot += score * (1 + Math.log(n)) * idf(term, corpus);
+      }
+      const norm = this.norm(other);
+      const cosine = dot && queryNorm && norm ? dot / (queryNorm * norm) : 0;
+      const shared = doc.tags.filter(t => tagSet.has(t)).length;
+      const jaccard = shared ? shared / (tagSet.size + doc.tags.length - shared) : 0;
+      const score = cosine + SHARED_TAG_WEIGHT * jaccard;
+      if (score >= MIN_SIMILARITY) out.push({ path: other, score });
+    });
+    return out.sort((a, b) => b.score - a.score).slice(0, max);
+  }
+
+  toJSON(): SerializedCorpus {
+    const docs: SerializedCorpus['docs'] = {};
+    this.docs.forEach((doc, path) => {
+      const tf: Record<string, number> = {};
+      doc.tf.forEach((n, term) => { tf[term] = n; });
+      docs[path] = { mtime: doc.mtime, tf, tags: doc.tags };
+    });
+    return { version: CORPUS_INDEX_VERSION, docs };
+  }
+
+  /** Index from its stored form; an empty index when the data is from another version */
+  static fromJSON(data: SerializedCorpus | null): CorpusIndex {
+    const index = new CorpusIndex();
+    if (data?.version !== CORPUS_INDEX_VERSION || !data.docs) return index;
+    for (const path of Object.keys(data.docs)) {
+      const { mtime, tf, tags } = data.docs[path];
+      index.add(path, mtime, new Map(Object.keys(tf).map(term => [term, tf[term]] as [string, number])), tags ?? []);
+    }
+    return index;
+  }
+
+  private add(path: string, mtime: number, tf: Map<string, number>, tags: string[]) {
+    this.docs.set(path, { mtime, tf, tags: Array.from(new Set(tags)) });
+    tf.forEach((_n, t) => this.df.set(t, (this.df.get(t) ?? 0) + 1));
+  }
+
+  private remove(path: string): boolean {
+    const doc = this.docs.get(path);
+    if (!doc) return false;
+    doc.tf.forEach((_n, t) => {
+      const n = (this.df.get(t) ?? 0) - 1;
+      if (n > 0) this.df.set(t, n);
+      else this.df.delete(t);
+    });
+    this.docs.delete(path);
+    return true;
+  }
+
+  private norm(path: string): number {
+    let norm = this.norms.get(path);
+    if (norm === undefined) {
+      const corpus = this.stats();
+      let sum = 0;
+      this.docs.get(path)?.tf.forEach((n, term) => {
+        const w = (1 + Math.log(n)) * idf(term, corpus);
+        sum += w * w;
+      });
+      norm = Math.sqrt(sum);
+      this.norms.set(path, norm);
+    }
+    return norm;
+  }
+}
+
+/* =========================
+   Engine
+   ========================= */
+
+/** `{ title, summary, tags_by_lang, taxonomy }` for the fields the engine can fill */
+export function generateLocal(input: LocalInput): Record<string, unknown> {
+  const text = plainText(input.body);
+  const out: Record<string, unknown> = {};
+  const tf = termCounts(tokenize(text));
+
+  for (const field of input.fields) {
+    if (field.type !== 'string') continue;
+    if (field.key === 'title') out.title = clip(findTitle(input.body) || input.basename, field.max ?? DEFAULT_TITLE_MAX);
+    if (field.key === 'summary') {
+      // Headings are labels, not sentences: "# Heading" would run into the paragraph below it
+      const prose = plainText(input.body.replace(HEADING_LINE, ''));
+      out.summary = summarize(prose, input.summaryMethod, tf, input.corpus, field.max ?? DEFAULT_SUMMARY_MAX);
+    }
+  }
+
+  if (input.tagLangs.length) {
+    const keywords = input.keywordMethod === 'rake' ? rake(text) : tfidf(tf, input.corpus);
+    out.tags_by_lang = tagsByLang(keywords, text, input.tagLangs, input.tagFormats);
+  }
+
+  if (input.taxonomy) out.taxonomy = pickTaxonomy(input.taxonomy, tf);
+  return out;
+}
+
+/* =========================
+   Text
+   ========================= */
+
+const HEADING_LINE = /^[ \t]{0,3}#{1,6}[ \t]+.*$/gm;
+
+/** Markdown → plain prose: code, links, markup and frontmatter-like noise removed */
+export function plainText(md: string): string {
+  return md
+    .replace(/```[\s\S]*?```|~~~[\s\S]*?~~~/g, ' ')
+    .replace(/`[^`\n]*`/g, ' ')
+    .replace(/%%[\s\S]*?%%|<!--[\s\S]*?-->/g, ' ')
+    .replace(/!?\[\[([^\]|]*\|)?([^\]]*)\]\]/g, '$2')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>\n]+>/g, ' ')
+    .replace(/[a-z][a-z0-9+.-]*:\/\/\S+/gi, ' ')
+    .replace(/(^|\s)#[\p{L}\p{N}_\-/]+/gu, '$1')
+    .replace(/^[ \t]*(?:>[ \t]*)*(?:#{1,6}\s+|[-*+]\s+(?:\[.\]\s+)?|\d+[.)]\s+)/gm, '')
+    .replace(/[*_~=]{1,3}/g, '');
+}
+
+/** First ATX H1 outside code blocks, without markup */
+export function findTitle(md: string): string {
+  const m = md.replace(/```[\s\S]*?```|~~~[\s\S]*?~~~/g, '').match(/^#\s+(.+?)\s*#*\s*$/m);
+  return m ? plainText(m[1]).replace(/\s+/g, ' ').trim() : '';
+}
+
+const HANGUL_RUN = /^[가-힯]+$/;
+const JOSA = /(으로|에서|에게|한테|까지|부터|처럼|보다|이나|이며|이고|하고|에는|와의|과의|은|는|이|가|을|를|에|의|로|와|과|도|만)$/;
+const HAN = /[㐀-䶿一-鿿]/;
+const CJK_RUNS = /[゠-ヿㇰ-ㇿ]+|[㐀-䶿一-鿿]+|[぀-ゟ]+/g;
+const KANA = /[぀-ヿ]/;
+
+/** Lowercase terms; Korean particles are stripped, Japanese/Chinese runs are split by script */
+export function tokenize(text: string): string[] {
+  const out: string[] = [];
+  const words = text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{M}\p{N}'’-]*/gu) ?? [];
+  for (const raw of words) {
+    const word = raw.replace(/['’-]+$/, '');
+    if (HAN.test(word) || KANA.test(word)) {
+      out.push(...cjkTerms(word));
+    } else if (HANGUL_RUN.test(word)) {
+      const stem = word.length > 2 ? word.replace(JOSA, '') : word;
+      if (stem.length >= 2 && !isStopword(stem) && !isStopword(word)) out.push(stem);
+    } else if (word.length >= 2 && !/^\p{N}+$/u.test(word) && !isStopword(word)) {
+      out.push(word);
+    }
+  }
+  return out;
+}
+
+// Katakana runs and kanji runs are words; hiragana (mostly particles/endings) is dropped.
+// Long Han runs (Chinese sentences) become overlapping bigrams.
+function cjkTerms(word: string): string[] {
+  const out: string[] = [];
+  const hasKana = KANA.test(word);
+  for (const run of word.match(CJK_RUNS) ?? []) {
+    if (/^[぀-ゟ]+$/.test(run) || run.length < 2 || isStopword(run)) continue;
+    if (HAN.test(run) && !hasKana && run.length > 4) {
+      for (let i = 0; i + 2 <= run.length; i++) {
+        const bigram = run.slice(i, i + 2);
+        if (!isStopword(bigram)) out.push(bigram);
+      }
+    } else {
+      out.push(run);
+    }
+  }
+  return out;
+}
+
+export function termCounts(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const t of terms) counts.set(t, (counts.get(t) ?? 0) + 1);
+  return counts;
+}
+
+function clip(s: string, max: number): string {
+  if (s.length <= max) return s;
+  const cut = s.slice(0, max - 1);
+  const space = cut.lastIndexOf(' ');
+  return `${(space > max * 0.6 ? cut.slice(0, space) : cut).trim()}…`;
+}
+
+/* =========================
+   Keywords
+   ========================= */
+
+function idf(term: string, corpus: CorpusStats | null): number {
+  if (!corpus || !corpus.docs) return 1;
+  return Math.log((1 + corpus.docs) / (1 + (corpus.df.get(term) ?? 0))) + 1;
+}
+
+/** Terms weighted by frequency in the note and rarity in the vault */
+function tfidf(tf: Map<string, number>, corpus: CorpusStats | null): Keyword[] {
+  return Array.from(tf, ([term, n]) => ({ term, score: (1 + Math.log(n)) * idf(term, corpus) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * RAKE: candidate phrases are the runs between stopwords and punctuation;
+ * a word scores degree/frequency and a phrase the sum of its words. Phrases are kept to 1-2 words.
+ */
+function rake(text: string): Keyword[] {
+  const phrases: string[][] = [];
+  for (const chunk of text.toLowerCase().split(/[.,;:!?()[\]{}"“”、。，！？\n]+/)) {
+    let current: string[] = [];
+    const words = chunk.split(/\s+/).filter(Boolean);
+    for (const w of words) {
+      const terms = tokenize(w);
+      if (terms.length !== 1) {
+        if (current.length) phrases.push(current);
+        current = [];
+        // CJK runs split into several terms: each is its own candidate
+        for (const t of terms) phrases.push([t]);
+        continue;
+      }
+      current.push(terms[0]);
+    }
+    if (current.length) phrases.push(current);
+  }
+
+  const freq = new Map<string, number>();
+  const degree = new Map<string, number>();
+  for (const p of phrases) {
+    for (const w of p) {
+      freq.set(w, (freq.get(w) ?? 0) + 1);
+      degree.set(w, (degree.get(w) ?? 0) + p.length);
+    }
+  }
+  const wordScore = (w: string) => (degree.get(w) ?? 0) / (freq.get(w) ?? 1);
+
+  const scores = new Map<string, number>();
+  for (const p of phrases) {
+    // Longer runs: score every adjacent pair instead
+    const candidates = p.length <= 2 ? [p] : p.slice(1).map((w, i) => [p[i], w]);
+    for (const c of candidates) {
+      const key = c.join(' ');
+      scores.set(key, Math.max(scores.get(key) ?? 0, c.reduce((sum, w) => sum + wordScore(w), 0)));
+    }
+  }
+  return Array.from(scores, ([term, score]) => ({ term, score })).sort((a, b) => b.score - a.score);
+}
+
+/** Top keywords per tag language, matched by script; Latin-script languages share the note's detected language */
+function tagsByLang(keywords: Keyword[], text: string, langs: TagLang[], formats: TagFormatPolicy): Record<string, string[]> {
+  const latin = detectLatinLanguage(text, langs.map(l => l.code));
+  const verbs = englishVerbs(text);
+  const out: Record<string, string[]> = {};
+  for (const { code, max } of langs) {
+    const isLatinLang = ['en', 'es', 'de', 'fr'].includes(code);
+    if (isLatinLang && code !== latin) {
+      out[code] = [];   // no translation offline
+      continue;
+    }
+    const stop = stopwordsFor(code);
+    const picked: string[] = [];
+    for (const { term } of keywords) {
+      if (picked.length >= max) break;
+      if (stop.has(term) || checkTagScript(code, term) !== null) continue;
+      if (code === 'en' && term.split(' ').some(w => verbs.has(w))) continue;
+      if (picked.some(p => p.includes(term) || term.includes(p))) continue;
+      picked.push(term);
+    }
+    out[code] = picked.map(t => formatTag(t, tagCaseFor(formats, code)));
+  }
+  return out;
+}
+
+/**
+ * English words that look like verbs in this text ("sleep affects memory", "exercise improved focus"):
+ * ending in -s or -ed, and every occurrence sits between a content word and a following word.
+ * A plural noun also shows up after "the", a preposition, at a sentence start or before punctuation.
+ */
+function englishVerbs(text: string): Set<string> {
+  const stop = stopwordsFor('en');
+  const verbLike = new Map<string, boolean>();
+  for (const sentence of splitSentences(text)) {
+    const words = sentence.toLowerCase().match(/[a-z][a-z'’-]*/g) ?? [];
+    words.forEach((w, i) => {
+      if (w.length < 5 || !/(s|ed)$/.test(w) || /(ss|us|is)$/.test(w)) return;
+      const inVerbSlot = i > 0 && !stop.has(words[i - 1]) && i < words.length - 1;
+      verbLike.set(w, (verbLike.get(w) ?? true) && inVerbSlot);
+    });
+  }
+  return new Set(Array.from(verbLike).filter(([, v]) => v).map(([w]) => w));
+}
+
+// The configured Latin-script language with the most stopword hits (the first configured one if none match)
+function detectLatinLanguage(text: string, codes: string[]): string | null {
+  const latin = codes.filter(c => ['en', 'es', 'de', 'fr'].includes(c));
+  if (latin.length <= 1) return latin[0] ?? null;
+  const words = text.toLowerCase().split(/[^\p{L}']+/u);
+  let best = latin[0];
+  let bestHits = 0;
+  for (const code of latin) {
+    const stop = stopwordsFor(code);
+    const hits = words.filter(w => stop.has(w)).length;
+    if (hits > bestHits) {
+      best = code;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+/* =========================
+   Summary
+   ========================= */
+
+function summarize(text: string, method: SummaryMethod, tf: Map<string, number>, corpus: CorpusStats | null, max: number): string {
+  const sentences = splitSentences(text).filter(s => tokenize(s).length >= 3);
+  if (!sentences.length) return clip(text.replace(/\s+/g, ' ').trim(), max);
+
+  let chosen: number[];
+  if (method === 'lead') {
+    chosen = sentences.map((_, i) => i);
+  } else {
+    const weight = new Map(tfidf(tf, corpus).map(k => [k.term, k.score]));
+    chosen = sentences
+      .map((s, i) => {
+        const terms = tokenize(s);
+        const score = terms.reduce((sum, t) => sum + (weight.get(t) ?? 0), 0) / Math.sqrt(terms.length);
+        return { i, score: score * (1 + 0.5 / (1 + i)) };   // slight preference for early sentences
+      })
+      .sort((a, b) => b.score - a.score)
+      .map(x => x.i);
+  }
+
+  const picked: number[] = [];
+  let length = 0;
+  for (const i of chosen) {
+    if (picked.length >= SUMMARY_SENTENCES) break;
+    const add = sentences[i].length + (picked.length ? 1 : 0);
+    if (length + add > max) {
+      if (!picked.length) return clip(sentences[i], max);
+      continue;
+    }
+    picked.push(i);
+    length += add;
+  }
+  return picked.sort((a, b) => a - b).map(i => sentences[i]).join(' ');
+}
+
+function splitSentences(text: string): string[] {
+  const out: string[] = [];
+  for (const para of text.split(/\n\s*\n/)) {
+    const flat = para.replace(/\s+/g, ' ').trim();
+    for (const m of flat.match(/[^.!?。！？]+(?:[.!?。！？]+|$)/g) ?? []) {
+      const s = m.trim();
+      if (s) out.push(s);
+    }
+  }
+  return out;
+}
+
+/* =========================
+   Taxonomy
+   ========================= */
+
+// Paths whose segment words occur in the note, deepest and best-matching first
+function pickTaxonomy(spec: { tree: Taxonomy; max: number }, tf: Map<string, number>): string[] {
+  const scored = spec.tree.paths
+    .map(path => {
+      const words = tokenize(`${path.replace(/[/_-]+/g, ' ')} ${spec.tree.descriptions[path] ?? ''}`);
+      const leaf = tokenize(path.split('/').pop()?.replace(/[_-]+/g, ' ') ?? '');
+      const hits = words.reduce((sum, w) => sum + (tf.get(w) ?? 0), 0);
+      const leafHit = leaf.some(w => tf.has(w));
+      return { path, score: leafHit ? hits + path.split('/').length : 0 };
+    })
+    .filter(x => x.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const picked: string[] = [];
+  for (const { path } of scored) {
+    if (picked.length >= spec.max) break;
+    // Skip ancestors of a path already picked
+    if (picked.some(p => p.startsWith(`${path}/`))) continue;
+    picked.push(path);
+  }
+  return picked;
+}
@@ -0,0 +1,80 @@
+// src/merge.ts
+// How a proposed value is combined with what the note already has.
+
+/* =========================
+   Types
+   ========================= */
+export type MergePolicy = 'overwrite' | 'fill-empty' | 'append' | 'never';
+
+export const MERGE_POLICY_LABELS: Record<MergePolicy, string> = {
+  'overwrite': 'Overwrite',
+  'fill-empty': 'Fill only if empty',
+  'append': 'Append',
+  'never': 'Never touch',
+};
+
+// Per-note lock value meaning "every field"
+const LOCK_ALL = ['all', '*'];
+
+/* =========================
+   Merge
+   ========================= */
+
+export function isEmptyValue(v: unknown): boolean {
+  return v == null || v === '' || (Array.isArray(v) && v.length === 0);
+}
+
+/**
+ * Value to write for `policy`, or undefined to leave the field untouched.
+ * `append` unions lists (via `mergeLists`) and appends text on a new paragraph; other scalars are filled only if empty.
+ */
+export function mergeValue(
+  policy: MergePolicy,
+  current: unknown,
+  proposed: unknown,
+  mergeLists: (current: unknown[], proposed: unknown[]) => unknown[] = unionLists
+): unknown | undefined {
+  switch (policy) {
+    case 'never':
+      return undefined;
+    case 'fill-empty':
+      return isEmptyValue(current) ? proposed : undefined;
+    case 'append': {
+      if (isEmptyValue(current)) return proposed;
+      if (Array.isArray(proposed) || Array.isArray(current)) {
+        return mergeLists(asList(current), asList(proposed));
+      }
+      if (typeof current === 'string' && typeof proposed === 'string') {
+        return current.includes(proposed) ? undefined : `${current}\n\n${proposed}`;
+      }
+      return undefined;
+    }
+    default:
+      return proposed;
+  }
+}
+
+function unionLists(current: unknown[], proposed: unknown[]): unknown[] {
+  return Array.from(new Set([...current, ...proposed]));
+}
+
+function asList(v: unknown): unknown[] {
+  if (Array.isArray(v)) return v;
+  return isEmptyValue(v) ? [] : [v];
+}
+
+/* =========================
+   Per-note locks
+   ========================= */
+
+/**
+ * Fields locked by the note itself, e.g. `fm_lock: [title, summary]` or `fm_lock: title, summary`.
+ * `fm_lock: true` (or all / *) locks the whole note.
+ */
+export function readLocks(value: unknown): { all: boolean; keys: Set<string> } {
+  if (value === true) return { all: true, keys: new Set() };
+  const list = Array.isArray(value) ? value.map(v => String(v ?? ''))
+    : typeof value === 'string' ? value.split(',') : [];
+  const keys = new Set(list.map(k => k.trim()).filter(Boolean));
+  return { all: [...keys].some(k => LOCK_ALL.includes(k.toLowerCase())), keys };
+}
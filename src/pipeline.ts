@@ -0,0 +1,714 @@
+// src/pipeline.ts
+// The per-note pipeline without the Obsidian API: prompt, generation, tag merging and frontmatter changes.
+// The plugin and the CLI supply the host (AI calls, taxonomy, vault tags) and do the reading and writing.
+import * as YAML from 'js-yaml';
+import {
+  buildChunkPrompt, ChunkDigest, composeDigests, estimateTokens, limitChunks, parseChunkDigest, splitIntoChunks
+} from './chunking';
+import { RequestAbortedError } from './http';
+import { applyEdits, extractInlineTags, inlineTagEdits, TextEdit } from './inline-tags';
+import { CorpusStats, generateLocal, plainText } from './local-engine';
+import { mergeValue, MergePolicy, readLocks } from './merge';
+import { renderTemplate, ResponseFormat, RESPONSE_FORMAT_LABELS } from './prompt-template';
+import type { ReviewField } from './review-modal';
+import { coerceEditedValue, DEFAULT_SCHEMA, SchemaField, schemaShapeLines, validSchemaFields } from './schema';
+import { FMSettings, isObject, promptTemplateFor } from './settings';
+import { formatExistingTag, formatTag, normalizeTagText, tagCaseFor, TagFormatPolicy, tagKey } from './tags';
+import { detectLanguages, tagLangsFor, TAG_LANG_LABELS } from './languages';
+import { ancestorsOf, Taxonomy, taxonomyPromptLines } from './taxonomy';
+import { buildRepairPrompt, validateAIResult, ValidationReport, ValidationSpec } from './validate';
+import { rankVocabulary, TagStat, TagVocabulary } from './vocabulary';
+import { hashString } from './hash';
+
+/* =========================
+   Types
+   ========================= */
+// Frontmatter object we manipulate
+export type FrontmatterData = Record<string, unknown> & {
+  tags?: string[] | string;
+  title?: string;
+  summary?: string;
+  created?: string | number | Date;
+  fm_created?: string;
+};
+
+// Inputs of one note's prompt
+export type PromptArgs = {
+  path: string;
+  body: string;
+  existingFM: FrontmatterData | null;
+  taxonomy: Taxonomy | null;
+  bodyHeading?: string;
+  linked?: LinkedNote[];   // link context, when enabled
+};
+
+// A note this one links to (out) or that links here (in), as prompt context
+export type LinkedNote = { path: string; direction: 'out' | 'in'; title: string | null; summary: string | null; tags: string[] };
+
+// A schema field asked for in one tag language, e.g. summary_ko for summary
+export type LocalizedField = SchemaField & { base: string; lang: string };
+
+/** What the pipeline needs from its environment (the plugin or the CLI) */
+export interface PipelineHost {
+  /** One AI call → parsed object (caching, budget and usage are the host's business) */
+  askAI(s: FMSettings, format: ResponseFormat, prompt: string, path: string, force: boolean): Promise<Record<string, unknown> | null>;
+  loadTaxonomy(s: FMSettings): Promise<Taxonomy | null>;
+  vaultTags(): TagStat[];
+  corpus(): Promise<CorpusStats>;
+  /** Link text (for `[[…]]`) of the notes most similar to `body`, best first, from the vault index */
+  relatedNotes(path: string, body: string, tags: string[], max: number): Promise<string[]>;
+  /** Outgoing links first, then backlinks */
+  linkedNotes(path: string): Promise<LinkedNote[]>;
+  notify(message: string, timeoutMs?: number): void;
+}
+
+// One note as read by the host
+export type NoteInput = {
+  path: string;
+  frontmatter: FrontmatterData | null;
+  body: string;
+  createdAt: number;   // file creation time, for `created`
+};
+
+export type NoteRunOptions = { quiet?: boolean; force?: boolean; rerun?: boolean };
+
+// Why a note was left alone
+export type NoteSkip = { skipped: 'locked' | 'unchanged' };
+
+/** Proposed frontmatter changes for one note, before review and writing */
+export type NotePlan = {
+  fields: ReviewField[];                       // merged per field policy; only changes differ from oldValue
+  proposed: Record<string, unknown>;           // raw proposed values (re-merged against live values when writing)
+  policyFor: (key: string) => MergePolicy;
+  contentHash: string;
+  prompt: string | null;                       // null when the local engine produced the answer
+  inlineTags: string[];
+  body: string;                                // body with inline tags handled per settings
+  bodyTagMode: 'strip' | 'move' | null;        // body rewrite for inline tags, null = keep the body
+};
+
+/* =========================
+   Constants
+   ========================= */
+// AI tags longer than this are dropped by validation
+export const TAG_MAX_LENGTH = 60;
+
+// Merge policies for plugin-managed fields; schema fields default to overwrite
+export const DEFAULT_FIELD_POLICIES: Record<string, MergePolicy> = {
+  tags: 'append',
+  aliases: 'append',
+  created: 'fill-empty',
+  fm_created: 'overwrite',
+};
+// Pseudo field key used for the "remove fields" change
+export const REMOVE_FIELD_KEY = '__remove';
+
+// Hash of the analyzed body + settings, written to the frontmatter after each run
+export const CONTENT_HASH_KEY = 'fm_hash';
+// Linked notes listed in the prompt, and the length their summaries are cut to
+export const LINK_CONTEXT_MAX = 10;
+const LINK_SUMMARY_MAX = 300;
+// Bump when prompt wording changes so stored hashes and cached responses go stale
+export const PROMPT_VERSION = 2;
+
+/* =========================
+   Note run
+   ========================= */
+
+/** Steps 2-6 of a run: inline tags, change detection, generation, tag merge and the merged field values */
+export async function planNoteUpdate(
+  s: FMSettings,
+  note: NoteInput,
+  host: PipelineHost,
+  opts: NoteRunOptions = {}
+): Promise<NotePlan | NoteSkip> {
+  const { path, frontmatter, body } = note;
+
+  // Per-note lock (e.g. `fm_lock: [title, summary]`, or `fm_lock: true` for the whole note)
+  const locks = readLocks(frontmatter?.[s.lockKey]);
+  if (locks.all) return { skipped: 'locked' };
+  const policyFor = (key: string): MergePolicy =>
+    locks.keys.has(key) ? 'never' : s.fieldPolicies[key] ?? DEFAULT_FIELD_POLICIES[key] ?? 'overwrite';
+
+  // 2) Extract inline tags from the body (strip / keep / move to a tag line, per settings)
+  const { inlineTags, body: nextBody } = extractInlineTags(body, s.inlineTagMode);
+
+  // Skip notes analyzed before with the same body and settings
+  const taxonomy = await host.loadTaxonomy(s);
+  const hash = contentHash(s, nextBody, taxonomy);
+  if (!opts.force && !opts.rerun && s.skipUnchanged && frontmatter?.[CONTENT_HASH_KEY] === hash) {
+    return { skipped: 'unchanged' };
+  }
+
+  // Tag languages that only apply to notes written in them
+  const noteSettings = settingsForBody(s, nextBody);
+  const linked = s.linkContext && s.engine !== 'local' ? (await host.linkedNotes(path)).slice(0, LINK_CONTEXT_MAX) : undefined;
+
+  // 3-4) Build prompt and call LLM → expected { title, summary, tags_by_lang }, or the local engine
+  const { report: { value: result, dropped }, prompt } = await generateForNote(noteSettings, {
+    path,
+    body: nextBody,
+    existingFM: frontmatter,
+    taxonomy,
+    linked,
+  }, host, opts);
+
+  // Flatten tags_by_lang, keeping each tag's language for formatting
+  const aiFlatTags = Object.entries(result.tags_by_lang)
+    .flatMap(([lang, tags]) => tags.filter(Boolean).map(tag => ({ tag, lang })));
+
+  // Map AI tags onto existing vault tags (the alias table applies in every mode)
+  const vocabMode = s.tagVocabularyMode;
+  const vocab = new TagVocabulary(host.vaultTags(), s.tagAliases);
+  const aiCanonicalTags: string[] = [];
+  const aiNewTags: Array<{ tag: string; lang: string }> = [];
+  for (const t of aiFlatTags) {
+    const hit = vocabMode === 'free' ? vocab.alias(t.tag) : vocab.match(t.tag, t.lang);
+    if (hit) aiCanonicalTags.push(hit);
+    else if (vocabMode === 'existing') dropped.push(`tag "${t.tag}" (not an existing vault tag)`);
+    else aiNewTags.push(t);
+  }
+
+  if (dropped.length) {
+    console.warn(`Dropped invalid AI output (${path}):`, dropped);
+    if (!opts.quiet) host.notify(`Dropped invalid AI output:\n- ${dropped.join('\n- ')}`, 10000);
+  }
+
+  // 5) Tag merge order: inline → existing FM → taxonomy → AI (dedupe, preserve case)
+  const taxonomyTags = result.taxonomy.flatMap(p => (s.taxonomyAncestors ? [...ancestorsOf(p), p] : [p]));
+  const chosen = new Map<string, string>();
+
+  const addKeepCase = (arr: unknown[]) => {
+    for (const t of arr) {
+      const rawTag = formatExistingTag(String(t ?? ''));
+      const k = tagKey(rawTag);
+      if (k && !chosen.has(k)) chosen.set(k, rawTag);
+    }
+  };
+  const addAsIs = (arr: string[]) => {
+    for (const t of arr) {
+      const k = tagKey(t);
+      if (k && !chosen.has(k)) chosen.set(k, t);
+    }
+  };
+  const formats: TagFormatPolicy = { byLang: s.tagFormats, fallback: s.tagFormatDefault };
+  const addAi = (arr: Array<{ tag: string; lang: string }>) => {
+    for (const t of arr) {
+      const rawTag = formatTag(t.tag, tagCaseFor(formats, t.lang));
+      const k = tagKey(rawTag);
+      if (k && !chosen.has(k)) chosen.set(k, rawTag);
+    }
+  };
+
+  const tagPolicy = policyFor('tags');
+  addKeepCase(inlineTags);                       // Inline tags first
+  if (tagPolicy !== 'overwrite') {
+    addKeepCase(asArray(frontmatter?.tags));     // Then existing FM
+  }
+  addAsIs(taxonomyTags);                         // Then nested tags from the taxonomy
+  addAsIs(aiCanonicalTags);                      // Then AI tags mapped to existing vault tags
+  addAi(aiNewTags);                              // Finally new AI tags
+  const finalTags = Array.from(chosen.values());
+
+  // 6) Proposed values, merged per field policy and diffed against the current frontmatter
+  const proposed: Record<string, unknown> = {};
+  const localized = localizedFields(noteSettings);
+  for (const field of [...validSchemaFields(s.schemaFields), ...localized.filter(f => s.localizedFields.includes(f.base))]) {
+    const value = result.fields[field.key];
+    if (value !== undefined && value !== null) proposed[field.key] = value;
+  }
+  // Translated titles join the model's own aliases (the title itself is not repeated)
+  if (s.translatedAliases) {
+    const title = String(result.fields.title ?? frontmatter?.title ?? '').trim().toLowerCase();
+    const aliases = localized
+      .filter(f => f.base === 'title')
+      .map(f => String(result.fields[f.key] ?? '').trim())
+      .filter(a => a && a.toLowerCase() !== title);
+    if (aliases.length) proposed.aliases = Array.from(new Set([...asArray(proposed.aliases).map(String), ...aliases]));
+  }
+  proposed.tags = mergeTagLists([], finalTags);
+  // Related notes: similar text and shared tags, from the local index (no AI involved)
+  const relatedKey = s.relatedKey.trim();
+  if (relatedKey) {
+    const body = sanitizeBodyForLLM(nextBody, Number.POSITIVE_INFINITY, true);
+    const related = await host.relatedNotes(path, body, finalTags, Math.max(1, s.relatedMax));
+    if (related.length) proposed[relatedKey] = related.map(link => `[[${link}]]`);
+  }
+  // created: default policy only fills when missing (prevents off-by-one on existing values)
+  proposed.created = formatYYYYMMDDLocal(note.createdAt);  // 'YYYY-MM-DD'
+  // fm_created: record today's date (local)
+  proposed.fm_created = formatYYYYMMDDLocal(Date.now());
+
+  const fields: ReviewField[] = [];
+  for (const [key, value] of Object.entries(proposed)) {
+    const current = frontmatter?.[key];
+    const next = mergeValue(policyFor(key), current, value, listMergerFor(key));
+    if (next === undefined) continue;
+    fields.push({
+      key,
+      label: key === 'tags' ? 'Tags' : key,
+      kind: Array.isArray(next) ? 'list' : 'text',
+      oldValue: key === 'tags' ? asArray(current).map(v => String(v ?? '')) : current,
+      newValue: next,
+      editable: key !== 'fm_created',
+    });
+  }
+
+  const removedKeys = s.removeFields
+    .filter(k => frontmatter != null && k in frontmatter && !locks.keys.has(k));
+  if (removedKeys.length) {
+    fields.push({ key: REMOVE_FIELD_KEY, label: 'Remove fields', kind: 'keys', oldValue: null, newValue: removedKeys, editable: false });
+  }
+
+  // Inline tags are only stripped from the body when they can land in the frontmatter
+  const canStripInline = s.inlineTagMode !== 'strip' || !inlineTags.length || fields.some(f => f.key === 'tags');
+  const bodyTagMode = s.inlineTagMode === 'keep' || !canStripInline ? null : s.inlineTagMode;
+
+  return { fields, proposed, policyFor, contentHash: hash, prompt, inlineTags, body: nextBody, bodyTagMode };
+}
+
+/** Every proposed change, as an unreviewed run writes them */
+export function acceptAll(plan: NotePlan): Record<string, unknown> {
+  const accepted: Record<string, unknown> = {};
+  for (const f of plan.fields) accepted[f.key] = f.newValue;
+  return accepted;
+}
+
+/** Edited review values come back as text: convert them to the field's type (invalid ones are dropped and returned) */
+export function coerceAccepted(s: FMSettings, accepted: Record<string, unknown>): string[] {
+  const invalid: string[] = [];
+  for (const field of validSchemaFields(s.schemaFields)) {
+    if (!(field.key in accepted)) continue;
+    const v = coerceEditedValue(field, accepted[field.key]);
+    if (v === undefined) {
+      invalid.push(field.key);
+      delete accepted[field.key];
+    } else {
+      accepted[field.key] = v;
+    }
+  }
+  return invalid;
+}
+
+/**
+ * Step 8: write the accepted fields into a frontmatter object (in place) and stamp the content hash.
+ * Unreviewed values are merged against `fm` again, in case it changed during the AI call.
+ */
+export function applyFields(fm: Record<string, unknown>, plan: NotePlan, accepted: Record<string, unknown>, reviewed: boolean) {
+  for (const [key, value] of Object.entries(accepted)) {
+    if (key === REMOVE_FIELD_KEY) {
+      // Remove unnecessary/forbidden fields
+      for (const k of asArray(value)) delete fm[String(k)];
+    } else if (reviewed) {
+      fm[key] = value;
+    } else {
+      const next = mergeValue(plan.policyFor(key), fm[key], plan.proposed[key], listMergerFor(key));
+      if (next !== undefined) fm[key] = next;
+    }
+  }
+  fm[CONTENT_HASH_KEY] = plan.contentHash;
+}
+
+function listMergerFor(key: string) {
+  return key === 'tags' ? mergeTagLists : undefined;
+}
+
+/* =========================
+   Languages
+   ========================= */
+
+/** Settings for one note: tag languages set to apply only to notes written in them are dropped when the body is not */
+export function settingsForBody(s: FMSettings, body: string): FMSettings {
+  const tagLangs = tagLangsFor(s.tagLangs, plainText(body));
+  return tagLangs.length === s.tagLangs.length ? s : { ...s, tagLangs };
+}
+
+/** Per-language copies of string fields (summary → summary_en, summary_ko); title copies also feed translated aliases */
+export function localizedFields(s: FMSettings): LocalizedField[] {
+  const keys = s.translatedAliases && !s.localizedFields.includes('title') ? [...s.localizedFields, 'title'] : s.localizedFields;
+  const fields = validSchemaFields(s.schemaFields);
+  const out: LocalizedField[] = [];
+  for (const base of keys) {
+    const field = fields.find(f => f.key === base) ?? DEFAULT_SCHEMA.find(f => f.key === base);
+    if (field?.type !== 'string') continue;
+    for (const { code } of s.tagLangs) {
+      const key = `${base}_${code}`;
+      if (fields.some(f => f.key === key)) continue;   // a schema field of its own wins
+      const instruction = [field.instruction.trim(), `in ${TAG_LANG_LABELS[code] ?? code}`].filter(Boolean).join(', ');
+      out.push({ ...field, key, instruction, base, lang: code });
+    }
+  }
+  return out;
+}
+
+/* =========================
+   Generation
+   ========================= */
+
+// === Engine: AI, local heuristics, or AI falling back to local; prompt is null when no AI answer was used ===
+export async function generateForNote(
+  s: FMSettings,
+  args: PromptArgs,
+  host: PipelineHost,
+  opts: NoteRunOptions
+): Promise<{ report: ValidationReport; prompt: string | null }> {
+  if (s.engine !== 'local') {
+    try {
+      // Existing FM is used as reference only; long notes are condensed first
+      const prompt = await buildPromptForBody(s, args, host, !!opts.force);
+      return { report: await generateValidated(s, prompt, args.path, args.taxonomy, host, !!opts.force), prompt };
+    } catch (e) {
+      if (s.engine !== 'fallback' || (e instanceof RequestAbortedError && e.reason === 'cancelled')) throw e;
+      const message = e instanceof Error ? e.message : String(e);
+      console.warn(`AI failed, using the local engine (${args.path}):`, e);
+      if (!opts.quiet) host.notify(`${message}\nUsing the local engine instead.`, 8000);
+    }
+  }
+
+  const obj = generateLocal({
+    basename: args.path.replace(/^.*\//, '').replace(/\.md$/i, ''),
+    body: args.body,
+    fields: validSchemaFields(s.schemaFields),
+    tagLangs: s.tagLangs,
+    tagFormats: { byLang: s.tagFormats, fallback: s.tagFormatDefault },
+    keywordMethod: s.localKeywordMethod,
+    summaryMethod: s.localSummary,
+    corpus: s.localKeywordMethod === 'tfidf' || s.localSummary === 'scored' ? await host.corpus() : null,
+    taxonomy: args.taxonomy ? { tree: args.taxonomy, max: Math.max(1, s.taxonomyMax) } : null,
+  });
+  // Extractive answers are in the note's own language: they fill that language's localized fields
+  const shares = detectLanguages(plainText(args.body));
+  const own = s.tagLangs.map(l => l.code).sort((a, b) => (shares[b] ?? 0) - (shares[a] ?? 0))[0];
+  for (const field of localizedFields(s)) {
+    if (field.lang === own && typeof obj[field.base] === 'string') obj[field.key] = obj[field.base];
+  }
+  // No repair round: the heuristics give the same answer again
+  return { report: validateAIResult(obj, validationSpec(s, args.taxonomy)), prompt: null };
+}
+
+// === Long-note mode: map each chunk to a digest, then reduce with the regular prompt ===
+export async function buildPromptForBody(s: FMSettings, args: PromptArgs, host: PipelineHost, force = false) {
+  const { longNoteMode, chunkTokens, maxCallsPerNote } = s;
+  const fullBody = sanitizeBodyForLLM(args.body, Number.POSITIVE_INFINITY, true);
+  if (!longNoteMode || estimateTokens(fullBody) <= chunkTokens) return buildPrompt(s, args, host);
+
+  // One call is reserved for the reduce step
+  const chunks = limitChunks(splitIntoChunks(fullBody, chunkTokens), Math.max(1, maxCallsPerNote - 1), chunkTokens);
+  const totalTags = s.tagLangs.reduce((n, x) => n + x.max, 0);
+  const digests: ChunkDigest[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    // Chunk digests are internal: always JSON
+    const obj = await host.askAI(s, 'json', buildChunkPrompt({
+      path: args.path,
+      chunk: chunks[i],
+      index: i,
+      total: chunks.length,
+      tagsPerChunk: Math.max(5, totalTags),
+    }), args.path, force);
+    digests.push(parseChunkDigest(obj));
+  }
+
+  return buildPrompt(s, {
+    ...args,
+    body: composeDigests(digests),
+    bodyHeading: `Section summaries and candidate tags of a long note (${chunks.length} parts, in order). ` +
+      'Write the title and summary for the whole note and pick tags from the candidates where they fit:',
+  }, host);
+}
+
+// === Prompt generation: the user template (or the default for the response format) + computed variables ===
+export function buildPrompt(s: FMSettings, args: PromptArgs, host: Pick<PipelineHost, 'vaultTags'>) {
+  const { path, body, existingFM } = args;
+  const cleanBody = sanitizeBodyForLLM(body, 40000, true);
+  const existingYaml = existingFM ? YAML.dump(existingFM).trim() : '(none)';
+
+  // { "en":5, "ko":5, ... } map + description
+  const quotas = new Map(s.tagLangs.map(x => [x.code, x.max]));
+  const langSpecLines: string[] = [];
+  for (const [code, max] of quotas) {
+    if (code === 'en') {
+      langSpecLines.push(`- "en": exactly ${max} tags; write multi-word concepts with spaces (or hyphens). Do NOT return concatenated forms like "legalprinciple". (Examples: "legal principle", "civil rights", "unlawful imprisonment", "US Constitution")`);
+    } else if (code === 'ko') {
+      langSpecLines.push(`- "ko": exactly ${max} tags; MUST contain Hangul (Korean). Do NOT use hyphens; write tags as a single concatenated word (no spaces).`);
+    } else if (code === 'ja') {
+      langSpecLines.push(`- "${code}": exactly ${max} tags; MUST be Japanese (Hiragana/Katakana/Kanji).`);
+    } else if (code === 'zh') {
+      langSpecLines.push(`- "${code}": exactly ${max} tags; MUST contain CJK ideographs (Chinese Han).`);
+    } else {
+      langSpecLines.push(`- "${code}": exactly ${max} tags; MUST be ${TAG_LANG_LABELS[code] ?? code} words.`);
+    }
+  }
+  const localized = localizedFields(s);
+  if (localized.length) {
+    langSpecLines.push(`- Fields ending in a language code (${localized.map(f => `"${f.key}"`).join(', ')}) are written in that language, as a native speaker would.`);
+  }
+
+  // Explicitly list tags_by_lang keys (fixed format)
+  const tagsObjShape = [...quotas.entries()]
+    .map(([code, max]) => `  "${code}": string[${max}]`)
+    .join(",\n");
+
+  // Existing vault tags, ranked by frequency and relevance to this note
+  const vocabMode = s.tagVocabularyMode;
+  const vocabLines: string[] = [];
+  if (vocabMode !== 'free') {
+    const vocab = rankVocabulary(host.vaultTags(), body, s.vocabularyPromptLimit);
+    if (vocab.length) {
+      vocabLines.push(
+        vocabMode === 'existing'
+          ? 'Existing vault tags (use ONLY these tags; pick the ones that fit each language):'
+          : 'Existing vault tags (reuse these when they fit instead of inventing near-duplicates):',
+        vocab.join(', '),
+      );
+    }
+  }
+
+  const shapeLines = schemaShapeLines([...validSchemaFields(s.schemaFields), ...localized]);
+  if (quotas.size) shapeLines.push('  "tags_by_lang": {', tagsObjShape, '  }');
+
+  // Nested tag paths from the taxonomy
+  const taxonomyLines: string[] = [];
+  if (args.taxonomy) {
+    shapeLines.push(`  "taxonomy": string[],  // 1-${s.taxonomyMax} full paths from the taxonomy below, most specific that fit`);
+    taxonomyLines.push(
+      'Taxonomy (place the note in this tree; output full paths exactly as listed, e.g. "a/b/c"):',
+      ...taxonomyPromptLines(args.taxonomy),
+    );
+  }
+
+  // Notes linked from and to this one, so tags stay consistent across a cluster
+  const linkedLines: string[] = [];
+  if (args.linked?.length) {
+    linkedLines.push('Linked notes (context only; "→" = linked from this note, "←" = links to it). Keep tags consistent with them where they fit:');
+    for (const n of args.linked) {
+      const parts = [`${n.direction === 'out' ? '→' : '←'} ${n.path}`];
+      if (n.title) parts.push(`title: ${n.title}`);
+      if (n.summary) {
+        const summary = n.summary.replace(/\s+/g, ' ').trim();
+        parts.push(`summary: ${summary.length > LINK_SUMMARY_MAX ? `${summary.slice(0, LINK_SUMMARY_MAX - 1)}…` : summary}`);
+      }
+      if (n.tags.length) parts.push(`tags: ${n.tags.join(', ')}`);
+      linkedLines.push(`- ${parts.join(' | ')}`);
+    }
+  }
+
+  return renderTemplate(promptTemplateFor(s), {
+    path,
+    body: cleanBody,
+    body_heading: args.bodyHeading ?? 'Body (images/code removed/truncated as needed):',
+    existing_frontmatter: existingYaml,
+    fields: shapeLines.join('\n'),
+    lang_rules: langSpecLines.join('\n'),
+    vault_tags: vocabLines.join('\n'),
+    taxonomy: taxonomyLines.join('\n'),
+    linked_notes: linkedLines.join('\n'),
+    date: formatYYYYMMDDLocal(Date.now()),
+  });
+}
+
+// === Validated generation: re-prompt with the violations, keep the best attempt ===
+export async function generateValidated(
+  s: FMSettings,
+  prompt: string,
+  path: string,
+  taxonomy: Taxonomy | null,
+  host: PipelineHost,
+  force = false
+): Promise<ValidationReport> {
+  const spec = validationSpec(s, taxonomy);
+  const retries = Math.max(0, s.validationRetries);
+
+  let best: ValidationReport | null = null;
+  let current = prompt;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    let obj: Record<string, unknown> | null;
+    try {
+      obj = await host.askAI(s, s.responseFormat, current, path, force);
+    } catch (e) {
+      // A cancelled run writes nothing, not even an earlier attempt
+      if (!best || (e instanceof RequestAbortedError && e.reason === 'cancelled')) throw e;
+      console.error('Repair attempt failed; keeping previous answer:', e);
+      break;
+    }
+    if (!obj) {
+      if (!best) throw new Error(`Did not receive ${RESPONSE_FORMAT_LABELS[s.responseFormat]} from AI: ${path}`);
+      break;
+    }
+
+    const report = validateAIResult(obj, spec);
+    if (!best || report.violations.length < best.violations.length) best = report;
+    if (!report.violations.length) break;
+    if (attempt < retries) console.warn(`AI output violations (${path}), retrying:`, report.violations);
+    const previous = s.responseFormat === 'yaml' ? YAML.dump(obj).trim() : JSON.stringify(obj);
+    current = buildRepairPrompt(prompt, previous, report.violations, RESPONSE_FORMAT_LABELS[s.responseFormat]);
+  }
+  // best is always set here: the first attempt either returns a report or throws
+  return best as ValidationReport;
+}
+
+export function validationSpec(s: FMSettings, taxonomy: Taxonomy | null): ValidationSpec {
+  return {
+    fields: [...validSchemaFields(s.schemaFields), ...localizedFields(s)],
+    tagLangs: s.tagLangs,
+    tagMaxLength: TAG_MAX_LENGTH,
+    taxonomy: taxonomy ? { tree: taxonomy, max: Math.max(1, s.taxonomyMax) } : undefined,
+  };
+}
+
+// === Change detection: body as sent to the AI + every setting that shapes the answer ===
+export function contentHash(s: FMSettings, body: string, taxonomy: Taxonomy | null): string {
+  const config = s.providers[s.provider];
+  const fingerprint = JSON.stringify([
+    PROMPT_VERSION,
+    config?.id, config?.model, config?.jsonMode,
+    s.tagLangs, s.localizedFields, s.translatedAliases, s.tagFormats, s.tagFormatDefault, s.schemaFields, s.tagVocabularyMode, s.tagAliases,
+    s.longNoteMode, s.chunkTokens, s.maxCallsPerNote,
+    s.responseFormat, promptTemplateFor(s),
+    taxonomy?.paths, s.taxonomyMax, s.taxonomyAncestors,
+    s.engine, s.localKeywordMethod, s.localSummary,
+    s.relatedKey, s.relatedMax, s.linkContext,
+  ]);
+  return hashString(`${fingerprint}\n${sanitizeBodyForLLM(body, Number.POSITIVE_INFINITY, true)}`);
+}
+
+/** System prompt for one AI call in the given answer format */
+export function systemPromptFor(format: ResponseFormat): string {
+  return `You output ${RESPONSE_FORMAT_LABELS[format]} only. No code fences. No extra commentary.`;
+}
+
+/** The answer as an object, null when it is empty or not an object; throws when it does not parse */
+export function parseAIAnswer(text: string, format: ResponseFormat): Record<string, unknown> | null {
+  if (!text) return null;
+  const parsed = parseAIObject(text, format);
+  if (parsed === undefined) {
+    console.error(`${RESPONSE_FORMAT_LABELS[format]} parse failed, original:`, text);
+    throw new Error(`Failed to parse AI ${RESPONSE_FORMAT_LABELS[format]} response`);
+  }
+  if (!isObject(parsed) || Array.isArray(parsed)) return null;
+  return parsed;
+}
+
+/* =========================
+   Note text
+   ========================= */
+
+// === frontmatter split/merge/compose ===
+export function splitFrontmatter(raw: string): { frontmatter: FrontmatterData | null; body: string } {
+  if (raw.startsWith('---')) {
+    const end = raw.indexOf('\n---', 3);
+    if (end !== -1) {
+      const yaml = raw.slice(3, end + 1).trim();
+      const body = raw.slice(end + 4).replace(/^\s*\n/, '');
+      const fmUnknown = safeLoadYaml(yaml);
+      const fm = isObject(fmUnknown) ? (fmUnknown as FrontmatterData) : null;
+      return { frontmatter: fm, body };
+    }
+  }
+  return { frontmatter: null, body: raw };
+}
+
+/** Step 9: span edits (offsets into `raw`) for the inline-tag rewrite; the FM text is never touched */
+export function bodyTagEdits(raw: string, mode: 'strip' | 'move'): TextEdit[] {
+  const { body } = splitFrontmatter(raw);
+  const offset = raw.length - body.length;   // the body is always a suffix of the note
+  return inlineTagEdits(body, mode).map(e => ({ from: e.from + offset, to: e.to + offset, text: e.text }));
+}
+
+/**
+ * Note text with `fm` as its frontmatter block, for hosts without Obsidian's processFrontMatter.
+ * `bodyEdits` (from bodyTagEdits) are applied first; the rest of the body is kept byte for byte.
+ */
+export function composeNote(raw: string, fm: Record<string, unknown>, bodyEdits: TextEdit[] = []): string {
+  const text = applyEdits(raw, bodyEdits);
+  // JSON schema: date-like strings stay plain; YAML dates read as Date are written back as dates
+  const yaml = YAML.dump(fm, { schema: YAML.JSON_SCHEMA, lineWidth: -1, replacer: (_key, value) => (value instanceof Date ? formatYamlDate(value) : value) });
+  // Keep the note's line endings (CRLF notes stay CRLF)
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const block = `---${eol}${yaml.replace(/\n/g, eol)}---`;
+  const end = text.startsWith('---') ? text.indexOf('\n---', 3) : -1;
+  return end === -1 ? `${block}${eol}${text}` : `${block}${text.slice(end + 4)}`;
+}
+
+// js-yaml reads `2024-05-01` as midnight UTC; keep such values date-only
+function formatYamlDate(d: Date): string {
+  const iso = d.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+}
+
+/* =========================
+   Utils
+   ========================= */
+
+// Prepare body for LLM:
+export function sanitizeBodyForLLM(
+  body: string,
+  maxChars = 40000,
+  collapseCodeBlocks = true
+) {
+  let s = body;
+
+  // - Remove image embeds: ![alt](url), ![[file.jpg]], <img ...>
+  s = s.replace(/!\[[^\]]*]\(\s*data:image\/[^)]+\)/gi, '');  // ![](data:image...)
+  s = s.replace(/<img[^>]+src\s*=\s*["']data:image\/[^"']+["'][^>]*>/gi, ''); // <img src="data:...">
+
+  // - Remove data URI (very long)
+  s = s.replace(/!\[[^\]]*]\(\s*[^)]+\)/g, '');         // ![alt](http.../file.png)
+  s = s.replace(/!\[\[[^\]]+]]/g, '');                  // ![[file.png]]
+  s = s.replace(/<img[^>]*>/gi, '');                    // <img ...>
+
+  // - Optionally collapse code blocks
+  if (collapseCodeBlocks) {
+    s = s.replace(/```[\s\S]*?```/g, '[code omitted]');
+  }
+
+  // - Apply length limit
+  if (s.length > maxChars) {
+    s = s.slice(0, maxChars) + '\n\n[... truncated for LLM ...]';
+  }
+
+  return s;
+}
+
+export function formatYYYYMMDDLocal(ts: number | Date) {
+  const d = ts instanceof Date ? ts : new Date(ts);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+export function safeLoadYaml(y: string): unknown {
+  try { return YAML.load(y); } catch { return null; }
+}
+
+function stripCodeFences(s: string) {
+  return s.replace(/^```[a-zA-Z]*\n?/, '').replace(/\n?```$/, '');
+}
+
+// Parsed AI answer, or undefined if it is not valid JSON/YAML.
+// Models sometimes wrap the answer in fences even when told not to.
+export function parseAIObject(text: string, format: ResponseFormat): unknown {
+  const stripped = stripCodeFences(text.trim());
+  if (format === 'json') {
+    try { return JSON.parse(stripped); } catch { return undefined; }
+  }
+  const parsed = safeLoadYaml(stripped);
+  if (parsed === null) return undefined;
+  // YAML dates load as Date objects; round-trip so values look like the JSON path's
+  return JSON.parse(JSON.stringify(parsed));
+}
+
+// Union of tag lists as written to the frontmatter ('#' stripped, whitespace → hyphen)
+export function mergeTagLists(existing: unknown[], add: unknown[]): string[] {
+  const merged = [...existing, ...add]
+    .map(v => String(v ?? ''))
+    .map(normalizeTagText)
+    .filter(Boolean);
+  return Array.from(new Set(merged));
+}
+
+export function asArray(v: unknown): unknown[] {
+  if (Array.isArray(v)) return v;
+  if (v == null) return [];
+  return [v];
+}
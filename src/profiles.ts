@@ -0,0 +1,96 @@
+// src/profiles.ts
+// Named setting overrides applied to notes matched by folder, tag or frontmatter key.
+import { matchAnyGlob } from './glob';
+
+/* =========================
+   Types
+   ========================= */
+export type SettingsProfile = {
+  name: string;
+  folders: string[];       // globs
+  tags: string[];          // note has one of these tags
+  frontmatter: string[];   // `key` (present and non-empty) or `key=value`
+  overrides: Record<string, unknown>;   // partial settings, same keys as the plugin settings
+};
+
+export type ProfileNote = {
+  path: string;
+  tags: string[];
+  frontmatter: Record<string, unknown> | null;
+};
+
+export type ProfileMatch = { profile: SettingsProfile; reason: string };
+
+/* =========================
+   Matching
+   ========================= */
+
+/**
+ * Profile for a note: an explicit `selectorKey: <name>` in the frontmatter wins,
+ * otherwise the first profile (in list order) whose folder, tag or frontmatter rule matches.
+ */
+export function matchProfile(profiles: SettingsProfile[], note: ProfileNote, selectorKey: string): ProfileMatch | null {
+  const selected = selectorKey ? note.frontmatter?.[selectorKey] : undefined;
+  if (typeof selected === 'string' && selected.trim()) {
+    const profile = profiles.find(p => p.name === selected.trim());
+    if (profile) return { profile, reason: `${selectorKey}: ${profile.name}` };
+  }
+
+  const tags = new Set(note.tags.map(normalizeTag));
+  for (const profile of profiles) {
+    if (matchAnyGlob(note.path, profile.folders)) return { profile, reason: 'folder' };
+    const tag = profile.tags.find(t => tags.has(normalizeTag(t)));
+    if (tag) return { profile, reason: `tag #${tag.replace(/^#/, '')}` };
+    const rule = profile.frontmatter.find(r => matchFrontmatterRule(note.frontmatter, r));
+    if (rule) return { profile, reason: `frontmatter ${rule}` };
+  }
+  return null;
+}
+
+function matchFrontmatterRule(fm: Record<string, unknown> | null, rule: string): boolean {
+  if (!fm) return false;
+  const eq = rule.indexOf('=');
+  const key = (eq === -1 ? rule : rule.slice(0, eq)).trim();
+  if (!key || !(key in fm)) return false;
+
+  const value = fm[key];
+  const values = (Array.isArray(value) ? value : [value]).filter(v => v != null && v !== '').map(v => String(v));
+  if (eq === -1) return values.length > 0;
+  const want = rule.slice(eq + 1).trim().toLowerCase();
+  return values.some(v => v.trim().toLowerCase() === want);
+}
+
+function normalizeTag(t: string) {
+  return t.replace(/^#/, '').toLowerCase();
+}
+
+/* =========================
+   Overrides
+   ========================= */
+
+/**
+ * `base` with the profile's overrides applied. Keys not in `base`, keys in `blocked`
+ * and values whose type differs from the base value are ignored and reported.
+ */
+export function applyOverrides<T extends object>(
+  base: T,
+  overrides: Record<string, unknown>,
+  blocked: ReadonlySet<string>
+): { settings: T; problems: string[] } {
+  const settings = { ...base };
+  const target = settings as Record<string, unknown>;
+  const problems: string[] = [];
+  for (const [key, value] of Object.entries(overrides)) {
+    if (blocked.has(key)) problems.push(`"${key}" cannot be set per profile`);
+    else if (!(key in base)) problems.push(`Unknown setting "${key}"`);
+    else if (kindOf(value) !== kindOf(target[key])) problems.push(`"${key}" should be ${kindOf(target[key])}`);
+    else target[key] = value;
+  }
+  return { settings, problems };
+}
+
+function kindOf(v: unknown): string {
+  if (Array.isArray(v)) return 'a list';
+  if (v === null) return 'null';
+  return typeof v === 'object' ? 'a mapping' : `a ${typeof v}`;
+}
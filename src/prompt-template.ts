@@ -0,0 +1,106 @@
+// src/prompt-template.ts
+// User-editable prompt templates with {{variable}} placeholders.
+
+/* =========================
+   Types
+   ========================= */
+export type ResponseFormat = 'json' | 'yaml';
+
+export const RESPONSE_FORMAT_LABELS: Record<ResponseFormat, string> = {
+  json: 'JSON',
+  yaml: 'YAML',
+};
+
+export type PromptVariables = {
+  path: string;
+  body: string;
+  body_heading: string;
+  existing_frontmatter: string;
+  fields: string;
+  lang_rules: string;
+  vault_tags: string;
+  taxonomy: string;
+  linked_notes: string;
+  date: string;
+};
+
+export const PROMPT_VARIABLE_DOCS: Record<keyof PromptVariables, string> = {
+  path: 'vault path of the note',
+  body: 'cleaned note body (or section summaries in long-note mode)',
+  body_heading: 'label for the body ("Body …" or the long-note explanation)',
+  existing_frontmatter: 'current frontmatter as YAML, or (none)',
+  fields: 'expected output fields, from the field schema and tag languages',
+  lang_rules: 'per-language tag counts and script rules',
+  vault_tags: 'existing vault tags to reuse (empty in free vocabulary mode)',
+  taxonomy: 'allowed nested tag paths (empty when no taxonomy is set)',
+  linked_notes: 'titles, summaries and tags of linked notes and backlinks (empty unless link context is on)',
+  date: 'today, YYYY-MM-DD',
+};
+
+/* =========================
+   Defaults
+   ========================= */
+const SHARED_RULES = [
+  'Global tag rules:',
+  '- Tags are keyphrases of 1-2 words (prefer 1).',
+  '- Avoid "#" characters. Use separators only if appropriate for the language.',
+  '',
+  'Per-language constraints:',
+  '{{lang_rules}}',
+  '',
+  '{{vault_tags}}',
+  '{{taxonomy}}',
+  '{{linked_notes}}',
+  'Do NOT add any other fields (e.g., path, created, updated, last_modified, fm_created).',
+  '',
+  'Reference (do NOT include as fields): file path = "{{path}}"',
+  '',
+  'Existing frontmatter (if any):',
+  '{{existing_frontmatter}}',
+  '',
+  '{{body_heading}}',
+  '{{body}}',
+];
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<ResponseFormat, string> = {
+  json: [
+    'Return **JSON only** (no code fences, no extra text).',
+    'The JSON must have exactly these fields:',
+    '{',
+    '{{fields}}',
+    '}',
+    '',
+    ...SHARED_RULES,
+  ].join('\n'),
+  yaml: [
+    'Return **YAML only** (no code fences, no extra text).',
+    'The YAML must be a single mapping with exactly these keys (types are shown JSON-style):',
+    '{',
+    '{{fields}}',
+    '}',
+    'Quote string values that contain ":" or "#". Write lists as block sequences ("- item").',
+    '',
+    ...SHARED_RULES,
+  ].join('\n'),
+};
+
+/* =========================
+   Rendering
+   ========================= */
+const VARIABLE_RE = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/** Replace `{{name}}` placeholders; unknown names are left as they are */
+export function renderTemplate(template: string, vars: PromptVariables): string {
+  const values: Record<string, string> = vars;
+  return template.replace(VARIABLE_RE, (m, name: string) => (Object.prototype.hasOwnProperty.call(values, name) ? values[name] : m));
+}
+
+/** Placeholder names in `template` that are not known variables */
+export function unknownVariables(template: string): string[] {
+  const unknown = new Set<string>();
+  template.replace(VARIABLE_RE, (m, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(PROMPT_VARIABLE_DOCS, name)) unknown.add(name);
+    return m;
+  });
+  return Array.from(unknown);
+}
@@ -0,0 +1,345 @@
+// src/providers.ts
+// LLM provider layer. Host-agnostic: HTTP goes through an injectable HttpClient,
+// so providers can run against a local mock server outside Obsidian.
+import { classifyFailure, FailureKind, FAILURE_MESSAGES } from './http';
+
+/* =========================
+   Types
+   ========================= */
+export type ProviderKind = 'openai' | 'anthropic' | 'gemini' | 'ollama';
+
+// native = API-level JSON mode (response_format / format / responseMimeType / prefill)
+// prompt = rely on prompt instructions only (for endpoints that reject JSON mode)
+export type JsonMode = 'native' | 'prompt';
+
+export type ProviderConfig = {
+  id: string;                        // preset id (openai, anthropic, …)
+  kind: ProviderKind;
+  baseUrl: string;
+  apiKey: string;
+  headers: Record<string, string>;   // extra request headers
+  models: string[];                  // choices shown in settings
+  model: string;
+  jsonMode: JsonMode;
+};
+
+export type ChatRequest = {
+  system: string;
+  prompt: string;
+  temperature?: number;
+  json: boolean;
+  signal?: AbortSignal;   // aborts the request (and any pending retry)
+};
+
+// Token counts reported by the endpoint
+export type TokenUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type ChatResponse = {
+  text: string;
+  usage: TokenUsage | null;   // null when the endpoint does not report usage
+};
+
+export type HttpRequest = {
+  url: string;
+  method: 'GET' | 'POST';
+  headers: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+};
+
+export type HttpResponse = {
+  status: number;
+  text: string;
+  headers: Record<string, string>;
+};
+
+export type HttpClient = (req: HttpRequest) => Promise<HttpResponse>;
+
+export interface LLMProvider {
+  readonly label: string;
+  complete(req: ChatRequest): Promise<ChatResponse>;
+}
+
+/** Non-2xx (or unreadable) response from a provider endpoint, classified for the message */
+export class ProviderError extends Error {
+  readonly kind: FailureKind;
+
+  constructor(readonly provider: string, readonly status: number, readonly body: string) {
+    const kind = classifyFailure(status, body);
+    super(`AI call failed (${provider}): ${FAILURE_MESSAGES[kind]} (HTTP ${status})`);
+    this.name = 'ProviderError';
+    this.kind = kind;
+  }
+}
+
+/* =========================
+   Presets
+   ========================= */
+type ProviderPreset = {
+  id: string;
+  kind: ProviderKind;
+  label: string;
+  baseUrl: string;
+  models: string[];
+  jsonMode: JsonMode;
+  requiresKey: boolean;
+};
+
+export const PROVIDER_PRESETS: ProviderPreset[] = [
+  {
+    id: 'openai', kind: 'openai', label: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    models: ['gpt-4o-mini', 'gpt-4o', 'gpt-4.1-mini', 'gpt-3.5-turbo'],
+    jsonMode: 'native', requiresKey: true,
+  },
+  {
+    id: 'anthropic', kind: 'anthropic', label: 'Anthropic',
+    baseUrl: 'https://api.anthropic.com/v1',
+    models: ['claude-3-5-haiku-latest', 'claude-3-5-sonnet-latest', 'claude-3-7-sonnet-latest'],
+    jsonMode: 'native', requiresKey: true,
+  },
+  {
+    id: 'gemini', kind: 'gemini', label: 'Google Gemini',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    models: ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.0-flash'],
+    jsonMode: 'native', requiresKey: true,
+  },
+  {
+    id: 'ollama', kind: 'ollama', label: 'Ollama (local)',
+    baseUrl: 'http://localhost:11434',
+    models: ['llama3.1', 'qwen2.5', 'mistral'],
+    jsonMode: 'native', requiresKey: false,
+  },
+  {
+    // llama.cpp's server speaks the OpenAI chat/completions dialect
+    id: 'llamacpp', kind: 'openai', label: 'llama.cpp server (local)',
+    baseUrl: 'http://localhost:8080/v1',
+    models: ['default'],
+    jsonMode: 'prompt', requiresKey: false,
+  },
+];
+
+export function getPreset(id: string): ProviderPreset | undefined {
+  return PROVIDER_PRESETS.find(p => p.id === id);
+}
+
+export function defaultProviderConfig(preset: ProviderPreset): ProviderConfig {
+  return {
+    id: preset.id,
+    kind: preset.kind,
+    baseUrl: preset.baseUrl,
+    apiKey: '',
+    headers: {},
+    models: [...preset.models],
+    model: preset.models[0] ?? '',
+    jsonMode: preset.jsonMode,
+  };
+}
+
+/** Fill every preset with saved values; migrates the legacy single-endpoint settings into "openai" */
+export function normalizeProviderConfigs(
+  saved: unknown,
+  legacy: { apiKey?: string; apiBase?: string; model?: string } = {}
+): Record<string, ProviderConfig> {
+  const savedMap = (typeof saved === 'object' && saved !== null ? saved : {}) as Record<string, Partial<ProviderConfig>>;
+  const out: Record<string, ProviderConfig> = {};
+
+  for (const preset of PROVIDER_PRESETS) {
+    const cfg = Object.assign(defaultProviderConfig(preset), savedMap[preset.id] ?? {});
+    cfg.id = preset.id;
+    cfg.kind = preset.kind;
+    out[preset.id] = cfg;
+  }
+
+  if (!savedMap.openai && (legacy.apiKey || legacy.apiBase || legacy.model)) {
+    const openai = out.openai;
+    if (legacy.apiKey) openai.apiKey = legacy.apiKey;
+    if (legacy.apiBase) openai.baseUrl = legacy.apiBase;
+    if (legacy.model) {
+      openai.model = legacy.model;
+      if (!openai.models.includes(legacy.model)) openai.models.push(legacy.model);
+    }
+  }
+  return out;
+}
+
+/* =========================
+   Implementations
+   ========================= */
+abstract class BaseProvider implements LLMProvider {
+  constructor(protected config: ProviderConfig, protected http: HttpClient) {}
+
+  get label() {
+    return getPreset(this.config.id)?.label ?? this.config.id;
+  }
+
+  abstract complete(req: ChatRequest): Promise<ChatResponse>;
+
+  protected url(path: string) {
+    return `${this.config.baseUrl.replace(/\/+$/, '')}${path}`;
+  }
+
+  protected async postJSON(url: string, payload: unknown, headers: Record<string, string>, signal?: AbortSignal): Promise<unknown> {
+    const res = await this.http({
+      url,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers, ...this.config.headers },
+      body: JSON.stringify(payload),
+      signal,
+    });
+    if (res.status < 200 || res.status >= 300) throw new ProviderError(this.label, res.status, res.text);
+    try {
+      return JSON.parse(res.text);
+    } catch {
+      throw new ProviderError(this.label, res.status, res.text);
+    }
+  }
+}
+
+class OpenAIProvider extends BaseProvider {
+  async complete(req: ChatRequest): Promise<ChatResponse> {
+    const payload: Record<string, unknown> = {
+      model: this.config.model,
+      messages: [
+        { role: 'system', content: req.system },
+        { role: 'user', content: req.prompt },
+      ],
+      temperature: req.temperature ?? 0.2,
+    };
+    // Force JSON response format (only where the endpoint supports it)
+    if (req.json && this.config.jsonMode === 'native') payload.response_format = { type: 'json_object' };
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+
+    const data = await this.postJSON(this.url('/chat/completions'), payload, headers, req.signal) as OpenAIResponse;
+    return {
+      text: data?.choices?.[0]?.message?.content?.trim?.() ?? '',
+      usage: toUsage(data?.usage?.prompt_tokens, data?.usage?.completion_tokens),
+    };
+  }
+}
+
+class AnthropicProvider extends BaseProvider {
+  async complete(req: ChatRequest): Promise<ChatResponse> {
+    // Anthropic has no JSON mode; prefilling the assistant turn with "{" keeps the output pure JSON
+    const prefill = req.json && this.config.jsonMode === 'native' ? '{' : '';
+    const messages: Array<{ role: string; content: string }> = [{ role: 'user', content: req.prompt }];
+    if (prefill) messages.push({ role: 'assistant', content: prefill });
+
+    const payload = {
+      model: this.config.model,
+      system: req.system,
+      messages,
+      max_tokens: 4096,
+      temperature: req.temperature ?? 0.2,
+    };
+    const headers = {
+      'x-api-key': this.config.apiKey,
+      'anthropic-version': '2023-06-01',
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+
+    const data = await this.postJSON(this.url('/messages'), payload, headers, req.signal) as AnthropicResponse;
+    const text = (data?.content ?? [])
+      .filter(c => c?.type === 'text')
+      .map(c => c.text ?? '')
+      .join('')
+      .trim();
+    return {
+      text: text ? prefill + text : '',
+      usage: toUsage(data?.usage?.input_tokens, data?.usage?.output_tokens),
+    };
+  }
+}
+
+class GeminiProvider extends BaseProvider {
+  async complete(req: ChatRequest): Promise<ChatResponse> {
+    const generationConfig: Record<string, unknown> = { temperature: req.temperature ?? 0.2 };
+    if (req.json && this.config.jsonMode === 'native') generationConfig.responseMimeType = 'application/json';
+
+    const payload = {
+      systemInstruction: { parts: [{ text: req.system }] },
+      contents: [{ role: 'user', parts: [{ text: req.prompt }] }],
+      generationConfig,
+    };
+    const url = this.url(`/models/${encodeURIComponent(this.config.model)}:generateContent`);
+
+    const data = await this.postJSON(url, payload, { 'x-goog-api-key': this.config.apiKey }, req.signal) as GeminiResponse;
+    const parts = data?.candidates?.[0]?.content?.parts ?? [];
+    return {
+      text: parts.map(p => p?.text ?? '').join('').trim(),
+      usage: toUsage(data?.usageMetadata?.promptTokenCount, data?.usageMetadata?.candidatesTokenCount),
+    };
+  }
+}
+
+class OllamaProvider extends BaseProvider {
+  async complete(req: ChatRequest): Promise<ChatResponse> {
+    const payload: Record<string, unknown> = {
+      model: this.config.model,
+      messages: [
+        { role: 'system', content: req.system },
+        { role: 'user', content: req.prompt },
+      ],
+      stream: false,
+      options: { temperature: req.temperature ?? 0.2 },
+    };
+    if (req.json && this.config.jsonMode === 'native') payload.format = 'json';
+
+    const headers: Record<string, string> = {};
+    if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+
+    const data = await this.postJSON(this.url('/api/chat'), payload, headers, req.signal) as OllamaResponse;
+    return {
+      text: data?.message?.content?.trim?.() ?? '',
+      usage: toUsage(data?.prompt_eval_count, data?.eval_count),
+    };
+  }
+}
+
+function toUsage(prompt: unknown, completion: unknown): TokenUsage | null {
+  if (typeof prompt !== 'number' && typeof completion !== 'number') return null;
+  return { promptTokens: Number(prompt) || 0, completionTokens: Number(completion) || 0 };
+}
+
+export function createProvider(config: ProviderConfig, http: HttpClient): LLMProvider {
+  switch (config.kind) {
+    case 'anthropic': return new AnthropicProvider(config, http);
+    case 'gemini': return new GeminiProvider(config, http);
+    case 'ollama': return new OllamaProvider(config, http);
+    default: return new OpenAIProvider(config, http);
+  }
+}
+
+/* =========================
+   Transport
+   ========================= */
+
+/** HttpClient backed by the global fetch (Obsidian renderer or Node 18+); subject to CORS in the renderer */
+export const fetchHttpClient: HttpClient = async (req) => {
+  const res = await fetch(req.url, { method: req.method, headers: req.headers, body: req.body, signal: req.signal });
+  const headers: Record<string, string> = {};
+  res.headers.forEach((value, key) => { headers[key] = value; });
+  return { status: res.status, text: await res.text(), headers };
+};
+
+/* =========================
+   Response shapes (only what we read)
+   ========================= */
+type OpenAIResponse = {
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+};
+type AnthropicResponse = {
+  content?: Array<{ type?: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+};
+type GeminiResponse = {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+};
+type OllamaResponse = { message?: { content?: string }; prompt_eval_count?: number; eval_count?: number };
@@ -0,0 +1,19 @@
+// src/request-url.ts
+// HttpClient backed by Obsidian's requestUrl: not subject to browser CORS, so self-hosted endpoints work without CORS headers.
+import { requestUrl } from 'obsidian';
+import { abortable } from './http';
+import { HttpClient } from './providers';
+
+export type HttpTransport = 'obsidian' | 'fetch';
+
+export const HTTP_TRANSPORT_LABELS: Record<HttpTransport, string> = {
+  obsidian: 'Obsidian (no CORS restrictions)',
+  fetch: 'Browser fetch',
+};
+
+// requestUrl cannot be aborted: on cancel/timeout the result is ignored
+export const obsidianHttpClient: HttpClient = (req) => abortable(
+  requestUrl({ url: req.url, method: req.method, headers: req.headers, body: req.body, throw: false })
+    .then(res => ({ status: res.status, text: res.text, headers: res.headers })),
+  req.signal
+);
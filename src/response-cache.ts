@@ -0,0 +1,71 @@
+// src/response-cache.ts
+// Local cache of parsed AI responses, keyed by a hash of provider/model/prompt.
+import { JsonFileStore } from './storage';
+
+type CacheEntry = { at: number; value: Record<string, unknown> };
+
+export class ResponseCache {
+  private entries: Record<string, CacheEntry> | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private store: JsonFileStore<Record<string, CacheEntry>>, private maxEntries: () => number) {}
+
+  async get(key: string): Promise<Record<string, unknown> | null> {
+    const entries = await this.load();
+    const hit = entries[key];
+    if (!hit) return null;
+    hit.at = Date.now();   // keep recently used entries on eviction
+    return copy(hit.value);
+  }
+
+  async set(key: string, value: Record<string, unknown>) {
+    const entries = await this.load();
+    entries[key] = { at: Date.now(), value: copy(value) };
+    this.evict(entries);
+    this.scheduleSave();
+  }
+
+  async clear() {
+    this.entries = {};
+    await this.store.clear();
+  }
+
+  async size(): Promise<number> {
+    return Object.keys(await this.load()).length;
+  }
+
+  /** Write pending changes now (e.g. on unload) */
+  async flush() {
+    if (this.saveTimer === null) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    if (this.entries) await this.store.save(this.entries);
+  }
+
+  private async load() {
+    if (!this.entries) this.entries = (await this.store.load()) ?? {};
+    return this.entries;
+  }
+
+  private evict(entries: Record<string, CacheEntry>) {
+    const max = this.maxEntries();
+    const keys = Object.keys(entries);
+    if (max <= 0 || keys.length <= max) return;
+    keys.sort((a, b) => entries[a].at - entries[b].at);
+    for (const k of keys.slice(0, keys.length - max)) delete entries[k];
+  }
+
+  // Batch runs add entries quickly; coalesce writes
+  private scheduleSave() {
+    if (this.saveTimer !== null) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      if (this.entries) this.store.save(this.entries).catch(e => console.error('Failed to save response cache:', e));
+    }, 2000);
+  }
+}
+
+// Callers mutate the parsed response; never hand out the stored object
+function copy(value: Record<string, unknown>): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(value));
+}
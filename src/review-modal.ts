@@ -0,0 +1,147 @@
+// src/review-modal.ts
+import { App, Modal, Setting } from 'obsidian';
+
+/* =========================
+   Types
+   ========================= */
+
+// One proposed frontmatter change (old → new)
+export type ReviewField = {
+  key: string;
+  label: string;
+  kind: 'text' | 'list' | 'keys';  // keys = frontmatter keys that will be deleted
+  oldValue: unknown;
+  newValue: unknown;
+  editable: boolean;
+};
+
+export type ReviewProposal = {
+  path: string;
+  fields: ReviewField[];
+  inlineTagChange: { mode: 'strip' | 'move'; tags: string[] } | null;   // body rewrite for inline tags
+};
+
+// Only accepted fields are present in `fields` (with edited values)
+export type ReviewDecision = {
+  fields: Record<string, unknown>;
+  applyBody: boolean;
+};
+
+/* =========================
+   Modal
+   ========================= */
+
+/** Field-by-field review of a proposed update; resolves null when cancelled */
+export function reviewProposal(app: App, proposal: ReviewProposal): Promise<ReviewDecision | null> {
+  return new Promise(resolve => new ReviewModal(app, proposal, resolve).open());
+}
+
+class ReviewModal extends Modal {
+  private accepted = new Map<string, boolean>();
+  private values = new Map<string, unknown>();
+  private applyBody = true;
+  private settled = false;
+
+  constructor(app: App, private proposal: ReviewProposal, private resolve: (d: ReviewDecision | null) => void) {
+    super(app);
+    for (const f of proposal.fields) {
+      this.accepted.set(f.key, true);
+      this.values.set(f.key, f.newValue);
+    }
+  }
+
+  onOpen() {
+    const { contentEl, proposal } = this;
+    contentEl.empty();
+    this.setTitle(`Review frontmatter: ${proposal.path}`);
+
+    const tagChange = proposal.inlineTagChange;
+    if (!proposal.fields.length && !tagChange) {
+      contentEl.createEl('p', { text: 'No changes proposed.' });
+    }
+
+    for (const field of proposal.fields) this.renderField(contentEl, field);
+
+    if (tagChange) {
+      const list = tagChange.tags.map(t => `#${t}`).join(', ');
+      new Setting(contentEl)
+        .setName(tagChange.mode === 'move' ? 'Body: move inline tags' : 'Body: strip inline tags')
+        .setDesc(tagChange.mode === 'move'
+          ? `Moves ${list} to a tag line at the end of the note.`
+          : `Removes ${list} from the body. They are only kept in the frontmatter if the tags change is accepted.`)
+        .addToggle(t => t.setValue(true).onChange(v => { this.applyBody = v; }));
+    }
+
+    new Setting(contentEl)
+      .addButton(b => b.setButtonText('Cancel').onClick(() => this.finish(null)))
+      .addButton(b => b.setButtonText('Apply accepted').setCta().onClick(() => this.finish(this.decision())));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.finish(null);
+  }
+
+  private renderField(parent: HTMLElement, field: ReviewField) {
+    const box = parent.createDiv();
+    box.createEl('h4', { text: field.label });
+
+    if (field.kind === 'list') {
+      const oldList = asStringList(field.oldValue);
+      const newList = asStringList(field.newValue);
+      const added = newList.filter(x => !oldList.includes(x));
+      const removed = oldList.filter(x => !newList.includes(x));
+      if (added.length) box.createEl('div', { text: `+ ${added.join(', ')}` });
+      if (removed.length) box.createEl('div', { text: `− ${removed.join(', ')}` });
+      if (!added.length && !removed.length) box.createEl('div', { text: '(unchanged)' });
+    } else if (field.kind === 'keys') {
+      box.createEl('div', { text: `Delete: ${asStringList(field.newValue).join(', ')}` });
+    } else {
+      box.createEl('div', { text: `Current: ${displayValue(field.oldValue)}` });
+      box.createEl('div', { text: `Proposed: ${displayValue(field.newValue)}` });
+    }
+
+    const row = new Setting(box).setName('Accept');
+    row.addToggle(t => t.setValue(true).onChange(v => { this.accepted.set(field.key, v); }));
+
+    if (!field.editable) return;
+    if (field.kind === 'list') {
+      row.addTextArea(t => t
+        .setValue(asStringList(field.newValue).join('\n'))
+        .onChange(v => {
+          this.values.set(field.key, v.split(/[\n,]/).map(x => x.trim()).filter(Boolean));
+        }));
+    } else {
+      row.addTextArea(t => t
+        .setValue(field.newValue == null ? '' : String(field.newValue))
+        .onChange(v => { this.values.set(field.key, v); }));
+    }
+  }
+
+  private decision(): ReviewDecision {
+    const fields: Record<string, unknown> = {};
+    for (const f of this.proposal.fields) {
+      if (this.accepted.get(f.key)) fields[f.key] = this.values.get(f.key);
+    }
+    return { fields, applyBody: this.applyBody };
+  }
+
+  private finish(d: ReviewDecision | null) {
+    if (this.settled) return;
+    this.settled = true;
+    this.resolve(d);
+    this.close();
+  }
+}
+
+function asStringList(v: unknown): string[] {
+  if (Array.isArray(v)) return v.map(x => String(x ?? ''));
+  if (v == null || v === '') return [];
+  return [String(v)];
+}
+
+function displayValue(v: unknown): string {
+  if (v == null || v === '') return '(empty)';
+  if (v instanceof Date) return v.toISOString().slice(0, 10);
+  return typeof v === 'string' ? v : JSON.stringify(v);
+}
@@ -0,0 +1,152 @@
+// src/schema.ts
+// User-defined frontmatter fields filled by the AI (tags are handled separately via tags_by_lang).
+
+/* =========================
+   Types
+   ========================= */
+export type SchemaFieldType = 'string' | 'enum' | 'list' | 'number' | 'date' | 'boolean';
+
+export type SchemaField = {
+  key: string;              // frontmatter key
+  type: SchemaFieldType;
+  instruction: string;      // what the model should put there
+  options?: string[];       // enum: allowed values; list: optional allowed items
+  min?: number;             // string: min length, list: min items, number: min value
+  max?: number;             // string: max length, list: max items, number: max value
+};
+
+export const SCHEMA_FIELD_TYPES: SchemaFieldType[] = ['string', 'enum', 'list', 'number', 'date', 'boolean'];
+
+// Keys the plugin manages itself; schema fields may not use them
+export const RESERVED_KEYS = ['tags', 'tags_by_lang', 'created', 'fm_created', 'fm_hash'];
+
+export const DEFAULT_SCHEMA: SchemaField[] = [
+  { key: 'title', type: 'string', instruction: 'A concise, descriptive title for the note', max: 120 },
+  { key: 'summary', type: 'string', instruction: 'A short summary of the note (1-3 sentences)', max: 600 },
+];
+
+/* =========================
+   Prompt
+   ========================= */
+
+/** JSON shape lines for the prompt, e.g. `  "rating": number, // 1-5; how useful the note is` */
+export function schemaShapeLines(fields: SchemaField[]): string[] {
+  return fields.map(f => {
+    const notes = [f.instruction.trim(), constraintText(f)].filter(Boolean).join('; ');
+    return `  "${f.key}": ${typeText(f)},${notes ? `  // ${notes}` : ''}`;
+  });
+}
+
+function typeText(f: SchemaField): string {
+  switch (f.type) {
+    case 'enum': return (f.options ?? []).map(o => JSON.stringify(o)).join(' | ') || 'string';
+    case 'list': return 'string[]';
+    case 'number': return 'number';
+    case 'boolean': return 'boolean';
+    case 'date': return 'string (YYYY-MM-DD, or null if none)';
+    default: return 'string';
+  }
+}
+
+function constraintText(f: SchemaField): string {
+  const parts: string[] = [];
+  if (f.type === 'string') {
+    if (f.min != null) parts.push(`at least ${f.min} characters`);
+    if (f.max != null) parts.push(`at most ${f.max} characters`);
+  } else if (f.type === 'list') {
+    if (f.min != null) parts.push(`at least ${f.min} items`);
+    if (f.max != null) parts.push(`at most ${f.max} items`);
+    if (f.options?.length) parts.push(`items from: ${f.options.join(', ')}`);
+  } else if (f.type === 'number') {
+    if (f.min != null) parts.push(`min ${f.min}`);
+    if (f.max != null) parts.push(`max ${f.max}`);
+  }
+  return parts.join(', ');
+}
+
+/* =========================
+   Validation / coercion
+   ========================= */
+export type FieldCheck =
+  | { ok: true; value: unknown }
+  | { ok: false; problem: string };
+
+/** Validate one AI value against its field definition; lenient coercions (e.g. "4" → 4) are allowed */
+export function checkFieldValue(f: SchemaField, v: unknown): FieldCheck {
+  const fail = (problem: string): FieldCheck => ({ ok: false, problem });
+
+  switch (f.type) {
+    case 'string': {
+      if (typeof v !== 'string') return fail(`must be a string, got ${describe(v)}`);
+      const s = v.trim();
+      if (!s) return fail('is empty');
+      if (f.min != null && s.length < f.min) return fail(`is ${s.length} characters long; the minimum is ${f.min}`);
+      if (f.max != null && s.length > f.max) return fail(`is ${s.length} characters long; the maximum is ${f.max}`);
+      return { ok: true, value: s };
+    }
+    case 'enum': {
+      const options = f.options ?? [];
+      const hit = typeof v === 'string'
+        ? options.find(o => o.toLowerCase() === v.trim().toLowerCase())
+        : undefined;
+      return hit !== undefined ? { ok: true, value: hit } : fail(`must be one of ${options.map(o => JSON.stringify(o)).join(', ')}`);
+    }
+    case 'list': {
+      if (!Array.isArray(v)) return fail(`must be an array of strings, got ${describe(v)}`);
+      const items = v.filter((x): x is string => typeof x === 'string' && !!x.trim()).map(x => x.trim());
+      if (items.length !== v.length) return fail('must contain only non-empty strings');
+      if (f.options?.length) {
+        const bad = items.filter(x => !f.options?.some(o => o.toLowerCase() === x.toLowerCase()));
+        if (bad.length) return fail(`contains values outside the allowed list: ${bad.join(', ')}`);
+      }
+      if (f.min != null && items.length < f.min) return fail(`has ${items.length} items; the minimum is ${f.min}`);
+      if (f.max != null && items.length > f.max) return fail(`has ${items.length} items; the maximum is ${f.max}`);
+      return { ok: true, value: items };
+    }
+    case 'number': {
+      const n = typeof v === 'number' ? v : typeof v === 'string' && v.trim() ? Number(v) : NaN;
+      if (!Number.isFinite(n)) return fail(`must be a number, got ${describe(v)}`);
+      if (f.min != null && n < f.min) return fail(`is ${n}; the minimum is ${f.min}`);
+      if (f.max != null && n > f.max) return fail(`is ${n}; the maximum is ${f.max}`);
+      return { ok: true, value: n };
+    }
+    case 'date': {
+      if (v === null) return { ok: true, value: null };
+      const m = typeof v === 'string' ? v.trim().match(/^(\d{4}-\d{2}-\d{2})(?:[T ].*)?$/) : null;
+      if (!m || Number.isNaN(Date.parse(m[1]))) return fail(`must be a date in YYYY-MM-DD format, got ${describe(v)}`);
+      return { ok: true, value: m[1] };
+    }
+    case 'boolean': {
+      if (typeof v === 'boolean') return { ok: true, value: v };
+      if (v === 'true' || v === 'false') return { ok: true, value: v === 'true' };
+      return fail(`must be true or false, got ${describe(v)}`);
+    }
+  }
+}
+
+/** Turn an edited review value (always text/list) back into the field's type; returns undefined if invalid */
+export function coerceEditedValue(f: SchemaField, v: unknown): unknown {
+  const check = checkFieldValue(f, v);
+  return check.ok ? check.value : undefined;
+}
+
+/** Problems with a schema definition (shown in settings) */
+export function schemaFieldProblem(f: SchemaField, all: SchemaField[]): string | null {
+  if (!/^[A-Za-z_][\w-]*$/.test(f.key)) return 'Key must start with a letter or "_" and contain only letters, digits, "_" or "-"';
+  if (RESERVED_KEYS.includes(f.key)) return `"${f.key}" is managed by the plugin`;
+  if (all.filter(x => x.key === f.key).length > 1) return `Duplicate key "${f.key}"`;
+  if (f.type === 'enum' && !f.options?.length) return 'Enum fields need at least one option';
+  return null;
+}
+
+/** The fields a run uses: ones with a problem (reserved or duplicate keys, …) are skipped */
+export function validSchemaFields(all: SchemaField[]): SchemaField[] {
+  return all.filter(f => !schemaFieldProblem(f, all));
+}
+
+function describe(v: unknown): string {
+  if (v === null) return 'null';
+  if (Array.isArray(v)) return 'array';
+  if (typeof v === 'string') return JSON.stringify(v.length > 40 ? `${v.slice(0, 40)}…` : v);
+  return typeof v;
+}
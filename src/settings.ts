@@ -0,0 +1,265 @@
+// src/settings.ts
+// Plugin settings: shape, defaults, loading and per-note profile resolution (shared by the plugin and the CLI).
+import { RESPONSE_FORMAT_LABELS, DEFAULT_PROMPT_TEMPLATES, ResponseFormat } from './prompt-template';
+import { applyOverrides, matchProfile, ProfileMatch, ProfileNote, SettingsProfile } from './profiles';
+import { normalizeProviderConfigs, ProviderConfig } from './providers';
+import { TagLang, TAG_LANG_WHEN_LABELS } from './languages';
+import { DEFAULT_TAG_FORMATS, TagCase } from './tags';
+import { TagAliasTable, VocabularyMode } from './vocabulary';
+import { DEFAULT_SCHEMA, SchemaField, schemaFieldProblem } from './schema';
+import { MergePolicy } from './merge';
+import { InlineTagMode, INLINE_TAG_MODE_LABELS } from './inline-tags';
+import { DEFAULT_PRICES, PriceTable } from './usage';
+import type { HttpTransport } from './request-url';
+import { EngineMode, KeywordMethod, SummaryMethod } from './local-engine';
+
+/* =========================
+   Settings
+   ========================= */
+export interface FMSettings {
+  provider: string;                           // active preset id, ex) openai, anthropic, ollama
+  providers: Record<string, ProviderConfig>;  // per-provider base URL, key, headers, models
+  tagLangs: TagLang[];
+  localizedFields: string[];            // string schema fields also written per tag language, e.g. summary → summary_ko
+  translatedAliases: boolean;           // add the title translated into each tag language to `aliases`
+  tagFormats: Record<string, TagCase>;  // AI tag style per language code
+  tagFormatDefault: TagCase;            // style for languages without an entry
+  batchConcurrency: number;        // files processed in parallel
+  batchRequestsPerMinute: number;  // 0 = unlimited
+  reviewBeforeWrite: boolean;      // show the review modal for single-note runs
+  validationRetries: number;       // repair re-prompts when the AI output violates the shape
+  schemaFields: SchemaField[];     // AI-filled frontmatter fields (besides tags)
+  fieldPolicies: Record<string, MergePolicy>;  // per-field merge policy overrides
+  lockKey: string;                 // per-note lock key, e.g. fm_lock: [title, summary]
+  removeFields: string[];          // keys deleted from the frontmatter on every run
+  historyEnabled: boolean;         // snapshot notes before each run (undo / restore)
+  historyMaxPerFile: number;       // 0 = unlimited
+  historyMaxEntries: number;       // 0 = unlimited
+  historyMaxAgeDays: number;       // 0 = unlimited
+  autoOnCreate: boolean;           // run when a note is created
+  autoOnIdle: boolean;             // run after a note has not been edited for autoIdleSeconds
+  autoIdleSeconds: number;
+  autoMoveIntoFolders: string[];   // run when a note is moved into one of these folders (globs)
+  autoInclude: string[];           // eligible folders (globs); empty = whole vault
+  autoExclude: string[];           // excluded folders (globs)
+  autoRequireTags: string[];       // only notes with one of these tags (empty = any)
+  autoSkipTags: string[];          // never notes with one of these tags
+  autoMinBodyLength: number;
+  longNoteMode: boolean;           // map-reduce over chunks instead of truncating long bodies
+  chunkTokens: number;             // token budget per chunk (also the long-note threshold)
+  maxCallsPerNote: number;         // map calls + the final reduce call
+  tagVocabularyMode: VocabularyMode;  // free | prefer existing vault tags | only existing
+  vocabularyPromptLimit: number;      // existing tags listed in the prompt
+  tagAliases: TagAliasTable;          // canonical → aliases
+  taxonomyPath: string;            // vault path of a taxonomy note (.md) or YAML file; '' = no taxonomy
+  taxonomyMax: number;             // nested tag paths picked per note
+  taxonomyAncestors: boolean;      // also add a/b for a/b/c
+  skipUnchanged: boolean;          // skip notes whose body and settings match the stored fm_hash
+  responseCacheEnabled: boolean;   // reuse stored AI responses for identical prompts
+  responseCacheMaxEntries: number; // oldest entries are evicted first
+  inlineTagMode: InlineTagMode;    // what happens to inline #tags in the body after a run
+  responseFormat: ResponseFormat;  // answer format requested from the model
+  promptTemplateJson: string;      // '' = built-in template
+  promptTemplateYaml: string;      // '' = built-in template
+  profiles: SettingsProfile[];     // per folder/tag/frontmatter overrides, first match wins
+  profileKey: string;              // frontmatter key naming a profile explicitly, e.g. fm_profile: research
+  modelPrices: PriceTable;         // USD per 1M input/output tokens, by model name or prefix
+  budgetDaily: number;             // USD; 0 = no cap
+  budgetMonthly: number;           // USD; 0 = no cap
+  usageLogMaxEntries: number;      // oldest calls beyond this are dropped from the usage log
+  httpTransport: HttpTransport;    // obsidian = requestUrl (no CORS), fetch = browser fetch
+  requestTimeoutSeconds: number;   // per attempt; 0 = no timeout
+  requestRetries: number;          // retries on timeouts, network errors, 429 and 5xx
+  auditReportPath: string;         // report note written by the audit command
+  auditChangedPercent: number;     // body change (in % of words) that flags a note as stale
+  engine: EngineMode;              // ai | local heuristics only | ai with local fallback when the API fails
+  localKeywordMethod: KeywordMethod;  // local engine tag extraction
+  localSummary: SummaryMethod;        // local engine summary sentences
+  relatedKey: string;              // frontmatter key for [[links]] to similar notes; '' = off
+  relatedMax: number;              // related notes per note
+  linkContext: boolean;            // titles/summaries/tags of linked notes and backlinks in the prompt
+}
+
+export const DEFAULT_PROFILE: SettingsProfile = { name: '', folders: [], tags: [], frontmatter: [], overrides: {} };
+
+// Settings for one note after applying its profile
+export type ResolvedSettings = { settings: FMSettings; profile: ProfileMatch | null; problems: string[] };
+
+// Settings shape before providers were introduced
+type LegacyApiSettings = { apiKey?: string; apiBase?: string; model?: string };
+
+export const DEFAULT_SETTINGS: FMSettings = {
+  provider: 'openai',
+  providers: normalizeProviderConfigs(null),
+  tagLangs: [{ code: 'en', max: 10 }],
+  localizedFields: [],
+  translatedAliases: false,
+  tagFormats: DEFAULT_TAG_FORMATS,
+  tagFormatDefault: 'asis',
+  batchConcurrency: 2,
+  batchRequestsPerMinute: 30,
+  reviewBeforeWrite: false,
+  validationRetries: 1,
+  schemaFields: DEFAULT_SCHEMA,
+  fieldPolicies: {},
+  lockKey: 'fm_lock',
+  removeFields: ['updated', 'last_modified', 'path'],
+  historyEnabled: true,
+  historyMaxPerFile: 10,
+  historyMaxEntries: 1000,
+  historyMaxAgeDays: 90,
+  autoOnCreate: false,
+  autoOnIdle: false,
+  autoIdleSeconds: 60,
+  autoMoveIntoFolders: [],
+  autoInclude: [],
+  autoExclude: [],
+  autoRequireTags: [],
+  autoSkipTags: [],
+  autoMinBodyLength: 200,
+  longNoteMode: false,
+  chunkTokens: 6000,
+  maxCallsPerNote: 8,
+  tagVocabularyMode: 'free',
+  vocabularyPromptLimit: 50,
+  tagAliases: {},
+  taxonomyPath: '',
+  taxonomyMax: 3,
+  taxonomyAncestors: false,
+  skipUnchanged: true,
+  responseCacheEnabled: true,
+  responseCacheMaxEntries: 1000,
+  inlineTagMode: 'strip',
+  responseFormat: 'json',
+  promptTemplateJson: '',
+  promptTemplateYaml: '',
+  profiles: [],
+  profileKey: 'fm_profile',
+  modelPrices: DEFAULT_PRICES,
+  budgetDaily: 0,
+  budgetMonthly: 0,
+  usageLogMaxEntries: 20000,
+  httpTransport: 'obsidian',
+  requestTimeoutSeconds: 120,
+  requestRetries: 3,
+  auditReportPath: 'Frontmatter audit.md',
+  auditChangedPercent: 25,
+  engine: 'ai',
+  localKeywordMethod: 'tfidf',
+  localSummary: 'scored',
+  relatedKey: '',
+  relatedMax: 5,
+  linkContext: false,
+};
+
+// Vault-wide settings that profiles cannot override (besides `model`, which targets the profile's provider)
+export const GLOBAL_ONLY_KEYS: ReadonlySet<string> = new Set<keyof FMSettings>([
+  'providers', 'profiles', 'profileKey',
+  'batchConcurrency', 'batchRequestsPerMinute',
+  'historyEnabled', 'historyMaxPerFile', 'historyMaxEntries', 'historyMaxAgeDays',
+  'autoOnCreate', 'autoOnIdle', 'autoIdleSeconds', 'autoMoveIntoFolders', 'autoInclude', 'autoExclude',
+  'autoRequireTags', 'autoSkipTags', 'autoMinBodyLength',
+  'responseCacheEnabled', 'responseCacheMaxEntries',
+  'modelPrices', 'budgetDaily', 'budgetMonthly', 'usageLogMaxEntries',
+  'auditReportPath', 'auditChangedPercent',
+]);
+
+/* =========================
+   Loading
+   ========================= */
+
+/** Saved plugin data → complete settings (defaults filled in, older formats migrated, nothing shared with the defaults) */
+export function normalizeSettings(data: Record<string, unknown> | null): FMSettings {
+  const merged: FMSettings = Object.assign({}, DEFAULT_SETTINGS, data ?? {});
+
+  // Older versions stored a single OpenAI-compatible endpoint at the top level
+  const { apiKey, apiBase, model, ...settings } = merged as FMSettings & LegacyApiSettings;
+  settings.providers = normalizeProviderConfigs(data?.providers, { apiKey, apiBase, model });
+  if (!settings.providers[settings.provider]) settings.provider = DEFAULT_SETTINGS.provider;
+  // Copy so edits never mutate the defaults
+  settings.schemaFields = settings.schemaFields.map(f => ({ ...f }));
+  settings.tagLangs = settings.tagLangs.map(l => ({ ...l }));
+  settings.localizedFields = [...settings.localizedFields];
+  settings.fieldPolicies = { ...settings.fieldPolicies };
+  settings.tagFormats = { ...settings.tagFormats };
+  settings.profiles = settings.profiles.map(p => ({ ...DEFAULT_PROFILE, ...p }));
+  settings.modelPrices = { ...settings.modelPrices };
+  return settings;
+}
+
+/** Global settings with the overrides of the profile matching this note (if any) */
+export function resolveSettingsFor(base: FMSettings, note: ProfileNote): ResolvedSettings {
+  const match = matchProfile(base.profiles, note, base.profileKey);
+  if (!match) return { settings: base, profile: null, problems: [] };
+  return { ...resolveProfile(base, match.profile), profile: match };
+}
+
+/* =========================
+   Prompt templates
+   ========================= */
+
+export function promptTemplateKey(format: ResponseFormat): 'promptTemplateJson' | 'promptTemplateYaml' {
+  return format === 'yaml' ? 'promptTemplateYaml' : 'promptTemplateJson';
+}
+
+/** Template in use for the settings' response format (the built-in one unless customized) */
+export function promptTemplateFor(s: FMSettings): string {
+  const custom = s[promptTemplateKey(s.responseFormat)];
+  return custom.trim() ? custom : DEFAULT_PROMPT_TEMPLATES[s.responseFormat];
+}
+
+/* =========================
+   Profiles
+   ========================= */
+
+/** Apply a profile to the global settings; invalid overrides are skipped and reported */
+export function resolveProfile(base: FMSettings, profile: SettingsProfile): { settings: FMSettings; problems: string[] } {
+  const { model, ...overrides } = profile.overrides;
+  const { settings, problems } = applyOverrides(base, overrides, GLOBAL_ONLY_KEYS);
+
+  if (!(settings.inlineTagMode in INLINE_TAG_MODE_LABELS)) {
+    problems.push('inlineTagMode should be strip, keep or move');
+    settings.inlineTagMode = base.inlineTagMode;
+  }
+  if (!(settings.responseFormat in RESPONSE_FORMAT_LABELS)) {
+    problems.push('responseFormat should be json or yaml');
+    settings.responseFormat = base.responseFormat;
+  }
+  if (!settings.providers[settings.provider]) {
+    problems.push(`Unknown provider "${settings.provider}"`);
+    settings.provider = base.provider;
+  }
+  if (model !== undefined) {
+    if (typeof model === 'string' && model.trim()) {
+      // Same endpoint and key, different model
+      const config = settings.providers[settings.provider];
+      settings.providers = { ...settings.providers, [settings.provider]: { ...config, model: model.trim() } };
+    } else {
+      problems.push('"model" should be a non-empty string');
+    }
+  }
+  if (settings.schemaFields !== base.schemaFields) {
+    const bad = settings.schemaFields.map(f => isObject(f) && typeof f.key === 'string' ? schemaFieldProblem(f, settings.schemaFields) : 'Invalid field')
+      .find(Boolean);
+    if (bad) {
+      problems.push(`schemaFields: ${bad}`);
+      settings.schemaFields = base.schemaFields;
+    }
+  }
+  if (settings.tagLangs !== base.tagLangs && !settings.tagLangs.every(x => isObject(x) && typeof x.code === 'string' && typeof x.max === 'number'
+    && (x.when === undefined || x.when in TAG_LANG_WHEN_LABELS))) {
+    problems.push('tagLangs: each entry needs a code and a max, e.g. { code: ko, max: 5, when: detected }');
+    settings.tagLangs = base.tagLangs;
+  }
+  if (settings.localizedFields !== base.localizedFields
+    && !(Array.isArray(settings.localizedFields) && settings.localizedFields.every(k => typeof k === 'string'))) {
+    problems.push('localizedFields should be a list of field keys, e.g. [summary]');
+    settings.localizedFields = base.localizedFields;
+  }
+  return { settings, problems };
+}
+
+// Narrow an arbitrary value to an object
+export function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null;
+}
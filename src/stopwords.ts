@@ -0,0 +1,54 @@
+// src/stopwords.ts
+// Per-language stopwords for local keyword extraction (the TAG_LANG_LABELS languages).
+
+const LISTS: Record<string, string> = {
+  en: `a about above after again against all also am an and any are aren't as at be because been before being below
+    between both but by can can't cannot could couldn't did didn't do does doesn't doing don't down during each either
+    etc even ever every few for from further get gets got had hadn't has hasn't have haven't having he her here hers
+    herself him himself his how however i if in into is isn't it it's its itself just let like make many may me might
+    more most much must my myself need new no nor not now of off often on once one only or other others our ours
+    ourselves out over own per rather really said same see she should shouldn't since so some still such than that
+    that's the their theirs them themselves then there there's these they this those though through thus to too two
+    under until up upon us use used using very via was wasn't way we well were weren't what when where whether which
+    while who whom whose why will with within without won't would wouldn't yet you your yours yourself yourselves`,
+  ko: `그 이 저 것 수 등 및 또는 그리고 그러나 하지만 그래서 그런데 또한 때문 위해 대한 대해 통해 따라 같은 같이 이런 저런 그런
+    있다 있는 있고 있어 있을 없다 없는 하다 하는 하고 해서 했다 한다 된다 되는 되어 됐다 이다 입니다 합니다 있습니다 것이다
+    우리 저희 나 너 당신 그녀 그들 여기 거기 저기 어디 언제 무엇 어떤 어떻게 왜 모든 각 더 덜 매우 아주 너무 잘 안 못 좀
+    다시 이미 아직 바로 먼저 다음 이후 이전 경우 정도 부분 가지 관련`,
+  ja: `これ それ あれ この その あの ここ そこ あそこ こと もの ため よう など まで から より ので のに けど けれど
+    する した して します しない ある あった あり ない なかった いる いた なる なった できる られる れる です ます
+    でした ました という といった および また ただし しかし そして つまり 私 僕 彼 彼女 我々`,
+  zh: `的 了 和 是 在 有 我 你 他 她 它 们 这 那 个 也 就 都 而 及 与 或 但 并 很 到 说 要 会 对 把 被 让 从 向 为 以 于 之
+    其 此 等 所 如 若 因为 所以 但是 而且 然后 如果 虽然 已经 可以 没有 一个 这个 那个 我们 你们 他们 什么 怎么 这些 那些`,
+  es: `a al algo algunas algunos ante antes aquel aquella como con contra cual cuando de del desde donde dos el él ella
+    ellas ellos en entre era eran es esa esas ese eso esos esta está están estas este esto estos fue fueron ha han hasta
+    hay la las le les lo los más me mi mis mucho muy nada ni no nos o otra otras otro otros para pero poco por porque
+    que qué se sea según ser si sí sin sobre son su sus también tan te tiene tienen todo todos tu tus un una uno unos
+    y ya yo`,
+  de: `aber alle allem allen aller alles als also am an ander andere anderen auch auf aus bei bin bis bist da damit dann
+    das dass dein deine dem den der des dich die dies diese diesem diesen dieser dieses dir doch dort du durch ein eine
+    einem einen einer eines er es etwas euch euer für gegen habe haben hat hatte hier hin hinter ich ihm ihn ihnen ihr
+    ihre im in ist jede jedem jeden jeder jedes jetzt kann kein keine können man manche mein meine mich mir mit muss
+    nach nicht nichts noch nun nur ob oder ohne sehr sein seine sich sie sind so solche soll sondern über um und uns
+    unser unter viel vom von vor war waren was weil weiter welche wenn werden wie wieder will wir wird wo zu zum zur`,
+  fr: `à au aux avec ce ceci cela celle celles celui ces cet cette chaque comme dans de des du elle elles en encore est et
+    été être eu fait faire il ils je la le les leur leurs lui ma mais me même mes moi mon ne ni nos notre nous on ont
+    ou où par pas peu plus pour qu que quel quelle quels qui sa sans se ses si son sont sous sur ta te tes toi ton tous
+    tout toute toutes très tu un une vos votre vous y`,
+};
+
+const SETS: Record<string, Set<string>> = {};
+for (const code of Object.keys(LISTS)) SETS[code] = new Set(LISTS[code].split(/\s+/).filter(Boolean));
+
+const ALL = new Set<string>();
+for (const code of Object.keys(SETS)) SETS[code].forEach(w => ALL.add(w));
+
+/** Stopwords of one language (empty for languages without a list) */
+export function stopwordsFor(code: string): Set<string> {
+  return SETS[code] ?? new Set();
+}
+
+/** True when `word` (lowercase) is a stopword in any supported language */
+export function isStopword(word: string): boolean {
+  return ALL.has(word);
+}
@@ -0,0 +1,46 @@
+// src/storage.ts
+
+/* =========================
+   Plugin-local JSON files
+   ========================= */
+
+// Minimal subset of Obsidian's DataAdapter we rely on (keeps this module host-agnostic)
+export interface FileAdapter {
+  exists(path: string): Promise<boolean>;
+  read(path: string): Promise<string>;
+  write(path: string, data: string): Promise<void>;
+  remove(path: string): Promise<void>;
+  mkdir(path: string): Promise<void>;
+}
+
+/** Create `dir` (and parents) if missing */
+export async function ensureDir(adapter: FileAdapter, dir: string): Promise<void> {
+  const parts = dir.split('/').filter(Boolean);
+  for (let i = 1; i <= parts.length; i++) {
+    const p = parts.slice(0, i).join('/');
+    if (!(await adapter.exists(p))) await adapter.mkdir(p);
+  }
+}
+
+/** A single JSON document stored next to the plugin's data.json */
+export class JsonFileStore<T> {
+  constructor(private adapter: FileAdapter, readonly path: string) {}
+
+  async load(): Promise<T | null> {
+    try {
+      if (!(await this.adapter.exists(this.path))) return null;
+      return JSON.parse(await this.adapter.read(this.path)) as T;
+    } catch (e) {
+      console.error('Failed to read plugin file:', this.path, e);
+      return null;
+    }
+  }
+
+  async save(value: T): Promise<void> {
+    await this.adapter.write(this.path, JSON.stringify(value));
+  }
+
+  async clear(): Promise<void> {
+    if (await this.adapter.exists(this.path)) await this.adapter.remove(this.path);
+  }
+}
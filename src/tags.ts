@@ -0,0 +1,102 @@
+// src/tags.ts
+
+/* =========================
+   Tag formatting
+   ========================= */
+export type TagCase = 'pascal' | 'camel' | 'kebab' | 'snake' | 'lower' | 'asis';
+
+export const TAG_CASE_LABELS: Record<TagCase, string> = {
+  pascal: 'PascalCase',
+  camel: 'camelCase',
+  kebab: 'kebab-case',
+  snake: 'snake_case',
+  lower: 'lowercase (joined)',
+  asis: 'As generated',
+};
+
+// Per-language style for AI tags; languages without an entry use `fallback`
+export type TagFormatPolicy = { byLang: Record<string, TagCase>; fallback: TagCase };
+
+export const DEFAULT_TAG_FORMATS: Record<string, TagCase> = { en: 'pascal', ko: 'lower' };
+
+// Characters Obsidian accepts in a tag besides letters, marks and digits
+const TAG_CHAR = /[\p{L}\p{M}\p{N}_\-/]/u;
+const NOT_TAG_CHARS = /[^\p{L}\p{M}\p{N}_\-/]+/gu;
+const COMBINING_ACCENTS = /[\u0300-\u036F]/g;   // Latin diacritics only (keeps Japanese voicing marks)
+
+/** Unicode-normalized tag text: no "#", full-width forms folded (NFKC), invalid characters → "-" */
+export function normalizeTagText(s: string): string {
+  return String(s ?? '')
+    .normalize('NFKC')
+    .trim()
+    .replace(/^#+/, '')
+    .replace(NOT_TAG_CHARS, '-')
+    .replace(/-{2,}/g, '-')
+    .split('/')
+    .map(seg => seg.replace(/^[-_]+|[-_]+$/g, ''))
+    .filter(Boolean)
+    .join('/');
+}
+
+/** Format an AI tag with `style`; nested segments ("a/b") are formatted one by one */
+export function formatTag(s: string, style: TagCase): string {
+  const text = normalizeTagText(s);
+  if (style === 'asis') return text;
+  return text.split('/').map(seg => formatSegment(seg, style)).filter(Boolean).join('/');
+}
+
+/** Style for a tag generated in language `code` */
+export function tagCaseFor(policy: TagFormatPolicy, code: string): TagCase {
+  return policy.byLang[code] ?? policy.fallback;
+}
+
+/** Existing (frontmatter/inline) tags keep their spelling; only the text is normalized */
+export function formatExistingTag(s: string) {
+  return normalizeTagText(s);
+}
+
+/**
+ * Key for duplicate detection: case-, separator- and accent-insensitive.
+ * "Cafe-Culture" with or without accents, "cafe_culture", "CafeCulture" and full-width forms → "cafeculture";
+ * nesting ("/") is significant.
+ */
+export function tagKey(s: string) {
+  return normalizeTagText(s)
+    .normalize('NFD')
+    .replace(COMBINING_ACCENTS, '')
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[_-]+/g, '');
+}
+
+function formatSegment(seg: string, style: TagCase): string {
+  const words = splitWords(seg);
+  switch (style) {
+    case 'pascal':
+      return words.map(capitalize).join('');
+    case 'camel':
+      return words.map((w, i) => (i === 0 ? w.toLowerCase() : capitalize(w))).join('');
+    case 'kebab':
+      return words.map(w => w.toLowerCase()).join('-');
+    case 'snake':
+      return words.map(w => w.toLowerCase()).join('_');
+    case 'lower':
+      return words.map(w => w.toLowerCase()).join('');
+    default:
+      return seg;
+  }
+}
+
+// "civil rights" / "civil_rights" / "civilRights" → ["civil", "rights"]
+function splitWords(seg: string): string[] {
+  return seg
+    .replace(/(\p{Ll})(\p{Lu})/gu, '$1 $2')
+    .split(/[\s_-]+/)
+    .filter(w => w && TAG_CHAR.test(w));
+}
+
+// Acronyms ("US") and digit-led tokens ("3D") stay as they are
+function capitalize(w: string): string {
+  if (/^\p{N}/u.test(w) || (w.length > 1 && w === w.toUpperCase() && w !== w.toLowerCase())) return w;
+  return w.charAt(0).toUpperCase() + w.slice(1).toLowerCase();
+}
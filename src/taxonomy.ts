@@ -0,0 +1,122 @@
+// src/taxonomy.ts
+// Allowed tag hierarchy (e.g. area/health/sleep) read from a Markdown note or a YAML file.
+import * as YAML from 'js-yaml';
+import { normalizeTagText } from './tags';
+
+/* =========================
+   Types
+   ========================= */
+export type Taxonomy = {
+  paths: string[];                        // every node as a full path, parents before children
+  descriptions: Record<string, string>;   // path → optional description
+};
+
+export type TaxonomyFormat = 'markdown' | 'yaml';
+
+/* =========================
+   Parsing
+   ========================= */
+
+export function taxonomyFormatFor(path: string): TaxonomyFormat {
+  return /\.ya?ml$/i.test(path) ? 'yaml' : 'markdown';
+}
+
+/** Parse a taxonomy; throws when YAML is malformed */
+export function parseTaxonomy(text: string, format: TaxonomyFormat): Taxonomy {
+  const tax: Taxonomy = { paths: [], descriptions: {} };
+  if (format === 'yaml') walkYaml(YAML.load(text), '', tax);
+  else parseMarkdown(text, tax);
+  return tax;
+}
+
+/**
+ * Markdown: nested bullet lists (indentation = depth) and/or lines with full paths.
+ *   - area
+ *     - health: body and mind
+ *       - sleep
+ *   #project/alpha
+ */
+function parseMarkdown(text: string, tax: Taxonomy) {
+  // CRLF notes too: the frontmatter (its own bullet lists included) is not part of the tree
+  const body = text.replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, '');
+  const stack: Array<{ indent: number; path: string }> = [];
+
+  for (const line of body.split(/\r?\n/)) {
+    const bullet = line.match(/^(\s*)[-*+]\s+(.+)$/);
+    if (bullet) {
+      const indent = bullet[1].replace(/\t/g, '    ').length;
+      while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+      const { name, description } = splitEntry(bullet[2]);
+      const parent = stack.length ? stack[stack.length - 1].path : '';
+      const path = addPath(tax, joinPath(parent, name), description);
+      if (path) stack.push({ indent, path });
+      continue;
+    }
+    // A bare path line: "#a/b/c" or "a/b/c" (headings have a space after "#")
+    const bare = line.trim().match(/^#?([^\s#/][^\s#]*\/[^\s#]+)$/);
+    if (bare) addPath(tax, bare[1], '');
+  }
+}
+
+function walkYaml(node: unknown, prefix: string, tax: Taxonomy) {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      if (typeof item === 'string') {
+        const { name, description } = splitEntry(item);
+        addPath(tax, joinPath(prefix, name), description);
+      } else {
+        walkYaml(item, prefix, tax);
+      }
+    }
+  } else if (typeof node === 'object' && node !== null) {
+    for (const [key, value] of Object.entries(node)) {
+      const path = addPath(tax, joinPath(prefix, key), typeof value === 'string' ? value : '');
+      if (path && value != null && typeof value !== 'string') walkYaml(value, path, tax);
+    }
+  } else if (typeof node === 'string') {
+    addPath(tax, joinPath(prefix, node), '');
+  }
+}
+
+// "sleep: rest and naps" → name + description; links/code marks around the name are dropped
+function splitEntry(text: string): { name: string; description: string } {
+  const i = text.indexOf(':');
+  const name = (i === -1 ? text : text.slice(0, i)).replace(/\[\[|\]\]|`/g, '').trim();
+  return { name, description: i === -1 ? '' : text.slice(i + 1).trim() };
+}
+
+function joinPath(parent: string, name: string) {
+  return parent ? `${parent}/${name}` : name;
+}
+
+// Adds the path and its ancestors; returns the normalized path ('' if empty)
+function addPath(tax: Taxonomy, raw: string, description: string): string {
+  const path = normalizeTagText(raw);
+  if (!path) return '';
+  for (const p of [...ancestorsOf(path), path]) {
+    if (!tax.paths.includes(p)) tax.paths.push(p);
+  }
+  if (description) tax.descriptions[path] = description;
+  return path;
+}
+
+/* =========================
+   Helpers
+   ========================= */
+
+/** "a/b/c" → ["a", "a/b"] */
+export function ancestorsOf(path: string): string[] {
+  const parts = path.split('/');
+  return parts.slice(1).map((_, i) => parts.slice(0, i + 1).join('/'));
+}
+
+/** Canonical spelling of `path` in the taxonomy (case-insensitive), or null */
+export function findTaxonomyPath(tax: Taxonomy, path: string): string | null {
+  const want = normalizeTagText(path).toLowerCase();
+  return tax.paths.find(p => p.toLowerCase() === want) ?? null;
+}
+
+/** One line per node for the prompt */
+export function taxonomyPromptLines(tax: Taxonomy): string[] {
+  return tax.paths.map(p => (tax.descriptions[p] ? `- ${p}: ${tax.descriptions[p]}` : `- ${p}`));
+}
@@ -0,0 +1,95 @@
+// src/usage-modal.ts
+import { App, Modal, Setting } from 'obsidian';
+import { Budget, formatCost, groupUsage, periodStart, summarize, UsageLog, UsagePeriod, UsageRecord, UsageTotals } from './usage';
+
+type GroupBy = 'note' | 'folder' | 'model';
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = { day: 'Today', month: 'This month', all: 'Whole log' };
+const GROUP_LABELS: Record<GroupBy, string> = { note: 'Note', folder: 'Folder', model: 'Model' };
+const TOP_ROWS = 25;
+
+/** Usage totals and the notes/folders/models that consumed the most */
+export class UsageModal extends Modal {
+  private period: UsagePeriod = 'month';
+  private groupBy: GroupBy = 'note';
+
+  constructor(app: App, private log: UsageLog, private budget: Budget) {
+    super(app);
+  }
+
+  async onOpen() {
+    await this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async render() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.titleEl.setText('Frontmatter: token usage');
+
+    const all = await this.log.list();
+    const now = Date.now();
+    const totalsFor = (p: UsagePeriod) => summarize(all.filter(r => r.at >= periodStart(p, now)));
+
+    const summary = contentEl.createEl('ul');
+    for (const p of ['day', 'month', 'all'] as UsagePeriod[]) {
+      const cap = p === 'day' ? this.budget.daily : p === 'month' ? this.budget.monthly : 0;
+      summary.createEl('li', { text: `${PERIOD_LABELS[p]}: ${describeTotals(totalsFor(p))}${cap > 0 ? ` (cap ${formatCost(cap)})` : ''}` });
+    }
+
+    new Setting(contentEl)
+      .setName('Top usage')
+      .addDropdown(d => {
+        for (const [k, label] of Object.entries(PERIOD_LABELS)) d.addOption(k, label);
+        d.setValue(this.period).onChange(async v => { this.period = v as UsagePeriod; await this.render(); });
+      })
+      .addDropdown(d => {
+        for (const [k, label] of Object.entries(GROUP_LABELS)) d.addOption(k, `By ${label.toLowerCase()}`);
+        d.setValue(this.groupBy).onChange(async v => { this.groupBy = v as GroupBy; await this.render(); });
+      });
+
+    const records = all.filter(r => r.at >= periodStart(this.period, now));
+    const rows = groupUsage(records, keyFor(this.groupBy)).slice(0, TOP_ROWS);
+    if (!rows.length) {
+      contentEl.createEl('p', { text: 'No AI calls recorded in this period.' });
+    } else {
+      const table = contentEl.createEl('table');
+      const head = table.createEl('tr');
+      for (const h of [GROUP_LABELS[this.groupBy], 'Calls', 'Tokens (in / out)', 'Cost']) head.createEl('th', { text: h });
+      for (const { key, totals } of rows) {
+        const tr = table.createEl('tr');
+        const cell = tr.createEl('td');
+        if (this.groupBy === 'note' && key) {
+          const link = cell.createEl('a', { text: key, href: '#' });
+          link.onclick = (evt) => {
+            evt.preventDefault();
+            this.app.workspace.openLinkText(key, '', false);
+            this.close();
+          };
+        } else {
+          cell.setText(key || '(vault-wide)');
+        }
+        tr.createEl('td', { text: String(totals.calls) });
+        tr.createEl('td', { text: `${totals.promptTokens} / ${totals.completionTokens}` });
+        tr.createEl('td', { text: totals.unpriced === totals.calls ? 'no price' : formatCost(totals.cost) });
+      }
+    }
+
+    new Setting(contentEl).addButton(b => b.setButtonText('Close').setCta().onClick(() => this.close()));
+  }
+}
+
+function keyFor(groupBy: GroupBy): (r: UsageRecord) => string {
+  if (groupBy === 'model') return r => `${r.provider}/${r.model}`;
+  if (groupBy === 'folder') return r => (r.path.includes('/') ? r.path.slice(0, r.path.lastIndexOf('/')) : r.path ? '/' : '');
+  return r => r.path;
+}
+
+function describeTotals(t: UsageTotals): string {
+  const tokens = `${t.calls} calls, ${t.promptTokens + t.completionTokens} tokens`;
+  const unpriced = t.unpriced ? ` (+${t.unpriced} without a price)` : '';
+  return `${formatCost(t.cost)} — ${tokens}${unpriced}`;
+}
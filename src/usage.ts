@@ -0,0 +1,218 @@
+// src/usage.ts
+// Token usage log, per-model prices and budget caps.
+import { JsonFileStore } from './storage';
+
+/* =========================
+   Types
+   ========================= */
+
+// USD per 1M tokens
+export type ModelPrice = { input: number; output: number };
+
+// Model name (or name prefix, e.g. "claude-3-5-haiku") → price
+export type PriceTable = Record<string, ModelPrice>;
+
+export type UsageRecord = {
+  at: number;
+  path: string;               // note the call was made for ('' for vault-wide tasks)
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null;        // null = no price for the model
+  estimated: boolean;         // counts estimated locally (endpoint reported no usage)
+};
+
+export type UsageTotals = {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpriced: number;           // calls without a price (not in `cost`)
+};
+
+export type Budget = {
+  daily: number;              // USD, 0 = no cap
+  monthly: number;            // USD, 0 = no cap
+};
+
+export type UsagePeriod = 'day' | 'month' | 'all';
+
+/** A budget cap was reached; no further AI calls are made until it resets or is raised */
+export class BudgetExceededError extends Error {
+  constructor(readonly period: 'daily' | 'monthly', readonly spent: number, readonly cap: number) {
+    super(`${period === 'daily' ? 'Daily' : 'Monthly'} AI budget reached: ${formatCost(spent)} of ${formatCost(cap)} spent. ` +
+      'Raise the cap in settings to continue.');
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/* =========================
+   Prices
+   ========================= */
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+};
+
+/** Price for `model`: exact name first, then the longest matching prefix ("gpt-4o-mini-2024-07-18" → "gpt-4o-mini") */
+export function priceFor(table: PriceTable, model: string): ModelPrice | null {
+  const name = model.trim().toLowerCase();
+  let best: string | null = null;
+  for (const key of Object.keys(table)) {
+    const k = key.toLowerCase();
+    if (k === name) return table[key];
+    if (name.startsWith(k) && (!best || k.length > best.length)) best = key;
+  }
+  return best ? table[best] : null;
+}
+
+export function costOf(promptTokens: number, completionTokens: number, price: ModelPrice): number {
+  return (promptTokens * price.input + completionTokens * price.output) / 1e6;
+}
+
+/** "model: input, output" per line (USD per 1M tokens); malformed lines are skipped */
+export function parsePriceTable(text: string): PriceTable {
+  const out: PriceTable = {};
+  for (const line of text.split('\n')) {
+    const i = line.lastIndexOf(':');
+    if (i <= 0) continue;
+    const model = line.slice(0, i).trim();
+    const [input, output] = line.slice(i + 1).split(',').map(x => Number(x.trim()));
+    if (model && Number.isFinite(input) && input >= 0 && Number.isFinite(output) && output >= 0) out[model] = { input, output };
+  }
+  return out;
+}
+
+export function formatPriceTable(table: PriceTable): string {
+  return Object.entries(table).map(([model, p]) => `${model}: ${p.input}, ${p.output}`).join('\n');
+}
+
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(usd > 0 && usd < 1 ? 4 : 2)}`;
+}
+
+/* =========================
+   Totals
+   ========================= */
+
+/** Start of the current day or month (local time); 0 for all */
+export function periodStart(period: UsagePeriod, now = Date.now()): number {
+  const d = new Date(now);
+  if (period === 'all') return 0;
+  return period === 'day'
+    ? new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime()
+    : new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+}
+
+export function summarize(records: UsageRecord[]): UsageTotals {
+  const t: UsageTotals = { calls: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 };
+  for (const r of records) {
+    t.calls++;
+    t.promptTokens += r.promptTokens;
+    t.completionTokens += r.completionTokens;
+    if (r.cost === null) t.unpriced++;
+    else t.cost += r.cost;
+  }
+  return t;
+}
+
+/** Totals per key (note, folder, model…), most expensive first */
+export function groupUsage(records: UsageRecord[], keyOf: (r: UsageRecord) => string): Array<{ key: string; totals: UsageTotals }> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const r of records) {
+    const key = keyOf(r);
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+  return Array.from(groups, ([key, list]) => ({ key, totals: summarize(list) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost ||
+      (b.totals.promptTokens + b.totals.completionTokens) - (a.totals.promptTokens + a.totals.completionTokens));
+}
+
+/* =========================
+   Log
+   ========================= */
+export class UsageLog {
+  private records: UsageRecord[] | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private store: JsonFileStore<UsageRecord[]>, private maxEntries: () => number) {}
+
+  async record(r: UsageRecord) {
+    const records = await this.load();
+    records.push(r);
+    const max = this.maxEntries();
+    if (max > 0 && records.length > max) {
+      // Only calls from before this month are dropped: the budget caps are checked against the rest
+      const monthStart = periodStart('month', r.at);
+      let drop = 0;
+      while (drop < records.length - max && records[drop].at < monthStart) drop++;
+      records.splice(0, drop);
+    }
+    this.scheduleSave();
+  }
+
+  /** Records since `since` (ms), oldest first */
+  async list(since = 0): Promise<UsageRecord[]> {
+    return (await this.load()).filter(r => r.at >= since);
+  }
+
+  async totals(period: UsagePeriod, now = Date.now()): Promise<UsageTotals> {
+    return summarize(await this.list(periodStart(period, now)));
+  }
+
+  /** Throws BudgetExceededError when today's or this month's spend has reached its cap */
+  async checkBudget(budget: Budget, now = Date.now()) {
+    if (budget.daily > 0) {
+      const { cost } = await this.totals('day', now);
+      if (cost >= budget.daily) throw new BudgetExceededError('daily', cost, budget.daily);
+    }
+    if (budget.monthly > 0) {
+      const { cost } = await this.totals('month', now);
+      if (cost >= budget.monthly) throw new BudgetExceededError('monthly', cost, budget.monthly);
+    }
+  }
+
+  /** Smallest amount left under the caps, or null when no cap is set */
+  async remaining(budget: Budget, now = Date.now()): Promise<number | null> {
+    const left: number[] = [];
+    if (budget.daily > 0) left.push(budget.daily - (await this.totals('day', now)).cost);
+    if (budget.monthly > 0) left.push(budget.monthly - (await this.totals('month', now)).cost);
+    return left.length ? Math.max(0, Math.min(...left)) : null;
+  }
+
+  async clear() {
+    this.records = [];
+    await this.store.clear();
+  }
+
+  /** Write pending changes now (e.g. on unload) */
+  async flush() {
+    if (this.saveTimer === null) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    if (this.records) await this.store.save(this.records);
+  }
+
+  private async load() {
+    if (!this.records) this.records = (await this.store.load()) ?? [];
+    return this.records;
+  }
+
+  // Batch runs add records quickly; coalesce writes
+  private scheduleSave() {
+    if (this.saveTimer !== null) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      if (this.records) this.store.save(this.records).catch(e => console.error('Failed to save usage log:', e));
+    }, 2000);
+  }
+}
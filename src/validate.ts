@@ -0,0 +1,182 @@
+// src/validate.ts
+import { checkTagScript, TagLang, TAG_LANG_LABELS } from './languages';
+import { checkFieldValue, SchemaField } from './schema';
+import { findTaxonomyPath, Taxonomy } from './taxonomy';
+
+/* =========================
+   Types
+   ========================= */
+export type ValidationSpec = {
+  fields: SchemaField[];
+  tagLangs: TagLang[];
+  tagMaxLength: number;
+  taxonomy?: { tree: Taxonomy; max: number };   // ask for taxonomy paths when set
+};
+
+// Cleaned AI result: only parts that passed validation
+export type AIResult = {
+  fields: Record<string, unknown>;     // schema key → typed value
+  tags_by_lang: Record<string, string[]>;
+  taxonomy: string[];                  // canonical taxonomy paths
+};
+
+export type ValidationReport = {
+  value: AIResult;
+  violations: string[];   // problems to report back to the model
+  dropped: string[];      // parts removed from the result
+};
+
+/* =========================
+   Validator
+   ========================= */
+
+/** Checks the AI object against the requested shape and keeps only the valid parts */
+export function validateAIResult(obj: Record<string, unknown>, spec: ValidationSpec): ValidationReport {
+  const violations: string[] = [];
+  const dropped: string[] = [];
+  const value: AIResult = { fields: {}, tags_by_lang: {}, taxonomy: [] };
+  const wantsTags = spec.tagLangs.length > 0;
+
+  // Unknown top-level keys
+  const knownKeys = [
+    ...spec.fields.map(f => f.key),
+    ...(wantsTags ? ['tags_by_lang'] : []),
+    ...(spec.taxonomy ? ['taxonomy'] : []),
+  ];
+  for (const key of Object.keys(obj)) {
+    if (!knownKeys.includes(key)) {
+      violations.push(`unknown field "${key}" (only ${knownKeys.join(', ')} are allowed)`);
+      dropped.push(`field "${key}"`);
+    }
+  }
+
+  // Schema fields
+  for (const field of spec.fields) {
+    const v = obj[field.key];
+    if (v === undefined) {
+      violations.push(`"${field.key}" is missing`);
+      continue;
+    }
+    const check = checkFieldValue(field, v);
+    if (check.ok) {
+      value.fields[field.key] = check.value;
+    } else {
+      violations.push(`"${field.key}" ${check.problem}`);
+      dropped.push(`${field.key} (${check.problem})`);
+    }
+  }
+
+  if (spec.taxonomy) checkTaxonomy(obj.taxonomy, spec.taxonomy, value, violations, dropped);
+
+  // tags_by_lang
+  if (!wantsTags) return { value, violations, dropped };
+  const raw = obj.tags_by_lang;
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    violations.push('"tags_by_lang" must be an object keyed by language code');
+    if (raw !== undefined) dropped.push('tags_by_lang (not an object)');
+    return { value, violations, dropped };
+  }
+
+  const byLang = raw as Record<string, unknown>;
+  const quotas = new Map(spec.tagLangs.map(x => [x.code, x.max]));
+
+  for (const code of Object.keys(byLang)) {
+    if (!quotas.has(code)) {
+      violations.push(`unexpected language "${code}" in tags_by_lang`);
+      dropped.push(`tags_by_lang.${code} (language not requested)`);
+    }
+  }
+
+  for (const [code, max] of quotas) {
+    const label = TAG_LANG_LABELS[code] ?? code;
+    const list = byLang[code];
+    if (list === undefined) {
+      if (max > 0) violations.push(`tags_by_lang is missing "${code}" (${label}); expected ${max} tags`);
+      continue;
+    }
+    if (!Array.isArray(list)) {
+      violations.push(`tags_by_lang.${code} must be an array of strings`);
+      dropped.push(`tags_by_lang.${code} (not an array)`);
+      continue;
+    }
+
+    const valid: string[] = [];
+    for (const item of list) {
+      if (typeof item !== 'string' || !item.trim()) {
+        violations.push(`tags_by_lang.${code} contains a non-string or empty tag: ${JSON.stringify(item)}`);
+        dropped.push(`${code} tag ${JSON.stringify(item)} (not a string)`);
+        continue;
+      }
+      const tag = item.trim();
+      const scriptProblem = checkTagScript(code, tag);
+      if (scriptProblem) {
+        violations.push(`tag "${tag}" in "${code}" ${scriptProblem}`);
+        dropped.push(`${code} tag "${tag}" (${scriptProblem})`);
+      } else if (tag.length > spec.tagMaxLength) {
+        violations.push(`tag "${tag}" in "${code}" is longer than ${spec.tagMaxLength} characters`);
+        dropped.push(`${code} tag "${tag}" (too long)`);
+      } else if (/#/.test(tag)) {
+        violations.push(`tag "${tag}" in "${code}" must not contain "#"`);
+        valid.push(tag.replace(/#/g, ''));
+      } else {
+        valid.push(tag);
+      }
+    }
+
+    if (list.length !== max) {
+      violations.push(`tags_by_lang.${code} has ${list.length} tags; exactly ${max} are required`);
+    }
+    if (valid.length > max) {
+      for (const extra of valid.slice(max)) dropped.push(`${code} tag "${extra}" (over quota of ${max})`);
+      valid.length = max;
+    }
+    value.tags_by_lang[code] = valid;
+  }
+
+  return { value, violations, dropped };
+}
+
+// Taxonomy paths must exist in the tree; they are mapped to its spelling
+function checkTaxonomy(
+  raw: unknown,
+  spec: { tree: Taxonomy; max: number },
+  value: AIResult,
+  violations: string[],
+  dropped: string[]
+) {
+  if (!Array.isArray(raw)) {
+    violations.push('"taxonomy" must be an array of taxonomy paths');
+    if (raw !== undefined) dropped.push('taxonomy (not an array)');
+    return;
+  }
+  for (const item of raw) {
+    const path = typeof item === 'string' ? findTaxonomyPath(spec.tree, item) : null;
+    if (!path) {
+      violations.push(`taxonomy path ${JSON.stringify(item)} is not in the taxonomy; use full paths exactly as listed`);
+      dropped.push(`taxonomy path ${JSON.stringify(item)} (not in the taxonomy)`);
+    } else if (!value.taxonomy.includes(path)) {
+      value.taxonomy.push(path);
+    }
+  }
+  if (!value.taxonomy.length) violations.push('"taxonomy" must contain at least one path');
+  if (value.taxonomy.length > spec.max) {
+    violations.push(`"taxonomy" has ${value.taxonomy.length} paths; at most ${spec.max} are allowed`);
+    for (const extra of value.taxonomy.slice(spec.max)) dropped.push(`taxonomy path "${extra}" (over the limit of ${spec.max})`);
+    value.taxonomy.length = spec.max;
+  }
+}
+
+/** Follow-up prompt asking the model to fix the listed problems */
+export function buildRepairPrompt(originalPrompt: string, previousAnswer: string, violations: string[], format = 'JSON') {
+  return [
+    originalPrompt,
+    '',
+    'Your previous answer was:',
+    previousAnswer,
+    '',
+    'It violated these requirements:',
+    ...violations.map(v => `- ${v}`),
+    '',
+    `Return the corrected ${format} only, with exactly the requested fields.`,
+  ].join('\n');
+}
@@ -0,0 +1,167 @@
+// src/vocabulary.ts
+// Reuse the vault's existing tags: rank them for the prompt, map AI tags onto them.
+import { checkTagScript } from './languages';
+import { tagKey } from './tags';
+
+/* =========================
+   Types
+   ========================= */
+export type VocabularyMode = 'free' | 'prefer' | 'existing';
+
+export type TagStat = { tag: string; count: number };
+
+// canonical tag → aliases that should be rewritten to it
+export type TagAliasTable = Record<string, string[]>;
+
+/* =========================
+   Ranking
+   ========================= */
+
+/** Most useful existing tags for this note: frequency plus word overlap with the body */
+export function rankVocabulary(stats: TagStat[], body: string, limit: number): string[] {
+  const bodyWords = new Set(words(body));
+  const scored = stats.map(s => {
+    const parts = words(splitTagWords(s.tag));
+    const hits = parts.filter(p => bodyWords.has(p)).length;
+    const relevance = parts.length ? hits / parts.length : 0;
+    return { tag: s.tag, score: Math.log(1 + s.count) + 3 * relevance };
+  });
+  scored.sort((a, b) => b.score - a.score || a.tag.localeCompare(b.tag));
+  return scored.slice(0, Math.max(0, limit)).map(s => s.tag);
+}
+
+/* =========================
+   Canonical mapping
+   ========================= */
+export class TagVocabulary {
+  private byKey = new Map<string, string>();
+  private byLooseKey = new Map<string, string>();
+  private aliases = new Map<string, string>();
+
+  constructor(stats: TagStat[], aliasTable: TagAliasTable) {
+    // Most frequent spelling wins when several variants share a key
+    const sorted = [...stats].sort((a, b) => b.count - a.count);
+    for (const { tag } of sorted) {
+      const k = tagKey(tag);
+      if (k && !this.byKey.has(k)) this.byKey.set(k, tag);
+      const loose = looseKey(tag);
+      if (loose && !this.byLooseKey.has(loose)) this.byLooseKey.set(loose, tag);
+    }
+    for (const [canonical, list] of Object.entries(aliasTable)) {
+      for (const alias of list) {
+        const k = tagKey(alias);
+        if (k) this.aliases.set(k, canonical);
+      }
+    }
+  }
+
+  /** Alias table lookup only */
+  alias(tag: string): string | null {
+    return this.aliases.get(tagKey(tag)) ?? null;
+  }
+
+  /** Closest existing tag (alias → same key → same loose key → English plural form or typo), or null; `lang` is the tag's language */
+  match(tag: string, lang: string): string | null {
+    const aliased = this.alias(tag);
+    if (aliased) return aliased;
+
+    const exact = this.byKey.get(tagKey(tag));
+    if (exact) return exact;
+
+    const loose = looseKey(tag);
+    if (!loose) return null;
+    const sameLoose = this.byLooseKey.get(loose);
+    if (sameLoose) return sameLoose;
+
+    // Plural forms of English tags ("models" → "model"), and typos only in long words: a one-letter
+    // change in a short word is often a different word ("modal" is not "model")
+    if (lang === 'en') {
+      const singular = singularKey(loose);
+      for (const [k, existing] of this.byLooseKey) {
+        if (singularKey(k) === singular && checkTagScript('en', existing) === null) return existing;
+      }
+    }
+    if (loose.length < TYPO_MIN_LENGTH) return null;
+    const depth = loose.split('/').length;
+    for (const [k, existing] of this.byLooseKey) {
+      if (k.length >= TYPO_MIN_LENGTH && k[0] === loose[0] && k.split('/').length === depth && editDistance(k, loose, 1) <= 1) return existing;
+    }
+    return null;
+  }
+}
+
+/** "canonical: alias1, alias2" per line */
+export function parseAliasTable(text: string): TagAliasTable {
+  const out: TagAliasTable = {};
+  for (const line of text.split('\n')) {
+    const i = line.indexOf(':');
+    if (i <= 0) continue;
+    const canonical = line.slice(0, i).trim().replace(/^#/, '');
+    const aliases = line.slice(i + 1).split(',').map(x => x.trim().replace(/^#/, '')).filter(Boolean);
+    if (canonical && aliases.length) out[canonical] = [...(out[canonical] ?? []), ...aliases];
+  }
+  return out;
+}
+
+export function formatAliasTable(table: TagAliasTable): string {
+  return Object.entries(table).map(([canonical, aliases]) => `${canonical}: ${aliases.join(', ')}`).join('\n');
+}
+
+/* =========================
+   Helpers
+   ========================= */
+
+// Shortest loose key where a one-letter difference is treated as a typo
+const TYPO_MIN_LENGTH = 10;
+
+// Words the suffix rules get wrong: plurals of "-is" words, and words that only look plural
+const SINGULAR_EXCEPTIONS: Record<string, string> = {
+  analyses: 'analysis', crises: 'crisis', diagnoses: 'diagnosis', hypotheses: 'hypothesis', theses: 'thesis',
+  axes: 'axes', bases: 'bases', means: 'means', news: 'news', series: 'series', species: 'species',
+  economics: 'economics', ethics: 'ethics', mathematics: 'mathematics', physics: 'physics', politics: 'politics', statistics: 'statistics',
+};
+
+// "studies" → "study", "classes" → "class", "models" → "model" (English plurals only; the last path level)
+function singularKey(key: string): string {
+  const i = key.lastIndexOf('/') + 1;
+  const parent = key.slice(0, i);
+  const word = key.slice(i);
+  if (Object.prototype.hasOwnProperty.call(SINGULAR_EXCEPTIONS, word)) return parent + SINGULAR_EXCEPTIONS[word];
+  if (word.length > 4 && word.endsWith('ies')) return `${parent}${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(s|x|z|ch|sh)es$/.test(word)) return parent + word.slice(0, -2);
+  // "status", "basis" and "class" are singular
+  if (word.length > 3 && word.endsWith('s') && !/(s|u|i)s$/.test(word)) return parent + word.slice(0, -1);
+  return key;
+}
+
+// Case/separator-insensitive key: "Civil-Rights", "civil_rights", "CivilRights" → "civilrights"; nesting is kept ("project/alpha")
+export function looseKey(tag: string): string {
+  return String(tag ?? '').replace(/^#/, '').toLowerCase().replace(/[\s_\-.]+/g, '');
+}
+
+// "CivilRights" / "civil-rights" / "area/health" → "Civil Rights" / "civil rights" / "area health"
+function splitTagWords(tag: string): string {
+  return tag.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/[_\-/]+/g, ' ');
+}
+
+function words(s: string): string[] {
+  return s.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 1);
+}
+
+/** Levenshtein distance with early exit once it exceeds `max` */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, cur[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = cur;
+  }
+  return prev[b.length];
+}
@@ -0,0 +1,164 @@
+// test/cli.test.ts
+// End to end: the bundled cli.js over a temporary vault, against a mock OpenAI-compatible server.
+import { strict as assert } from 'assert';
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import { describe, it } from 'node:test';
+import * as os from 'os';
+import * as nodePath from 'path';
+import { MockReply, MockServer, startMockServer } from './mock-server';
+
+// Built by test/run.mjs
+const CLI = process.env.FRONTMATTER_AUTOGEN_CLI ?? '';
+
+type CliResult = { code: number | null; stdout: string; stderr: string };
+
+type RunReport = {
+  dryRun: boolean;
+  stopped: string | null;
+  totals: { notes: number; updated: number; skipped: number; failed: number; promptTokens: number; completionTokens: number; cost: number };
+  notes: Array<{ path: string; status: string; reason?: string; changes: Array<{ key: string; to: unknown }> }>;
+};
+
+const NOTES: Record<string, string> = {
+  'alpha.md': 'Alpha body about gardening and soil.\n',
+  'folder/beta.md': '---\nauthor: someone\n---\nBeta body about cooking.\n',
+  'locked.md': '---\nfm_lock: true\n---\nLocked body.\n',
+};
+
+// The default settings ask for exactly 10 English tags
+const TAGS = ['garden', 'soil', 'compost', 'seeds', 'water', 'sun', 'plants', 'roots', 'weeds', 'harvest'];
+
+// One answer per request, in the order the notes are sent
+function chatReply(index: number): MockReply {
+  const answer = { title: `Title ${index + 1}`, summary: `Summary ${index + 1}.`, tags_by_lang: { en: TAGS } };
+  return {
+    body: {
+      choices: [{ message: { content: JSON.stringify(answer) } }],
+      usage: { prompt_tokens: 100, completion_tokens: 20 },
+    },
+  };
+}
+
+function runCli(args: string[]): Promise<CliResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [CLI, ...args], { env: { ...process.env, FRONTMATTER_AUTOGEN_API_KEY: '' } });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (c: Buffer) => { stdout += c.toString('utf8'); });
+    child.stderr.on('data', (c: Buffer) => { stderr += c.toString('utf8'); });
+    child.on('error', reject);
+    child.on('close', code => resolve({ code, stdout, stderr }));
+  });
+}
+
+/** Run `fn` with a fresh vault holding NOTES and a mock server answering with `respond` */
+async function withVault(respond: (index: number) => MockReply, fn: (vault: string, server: MockServer, args: string[]) => Promise<void>) {
+  const vault = await fs.mkdtemp(nodePath.join(os.tmpdir(), 'frontmatter-autogen-vault-'));
+  const server = await startMockServer((req, index) => respond(index));
+  try {
+    for (const [path, text] of Object.entries(NOTES)) {
+      await fs.mkdir(nodePath.dirname(nodePath.join(vault, path)), { recursive: true });
+      await fs.writeFile(nodePath.join(vault, path), text, 'utf8');
+    }
+    // One note at a time, so the answers follow the note order
+    const args = ['--provider', 'openai', '--base-url', `${server.url}/v1`, '--model', 'gpt-4o-mini', '--api-key', 'test-key', '--concurrency', '1'];
+    await fn(vault, server, args);
+  } finally {
+    await server.close();
+    await fs.rm(vault, { recursive: true, force: true });
+  }
+}
+
+const read = (vault: string, path: string) => fs.readFile(nodePath.join(vault, path), 'utf8');
+
+describe('cli', () => {
+  it('prints the usage', async () => {
+    const res = await runCli(['--help']);
+    assert.equal(res.code, 0);
+    assert.match(res.stdout, /Usage: frontmatter-autogen run <dir>/);
+
+    const bad = await runCli(['run']);
+    assert.equal(bad.code, 2);
+    assert.match(bad.stderr, /Missing <dir>/);
+  });
+
+  it('run writes the frontmatter and skips unchanged notes next time', () => withVault(chatReply, async (vault, server, args) => {
+    const res = await runCli(['run', vault, ...args]);
+    assert.equal(res.code, 0, res.stderr);
+    assert.match(res.stdout, /3 notes: 2 updated, 1 skipped, 0 failed/);
+    assert.equal(server.requests.length, 2);
+    assert.equal(server.requests[0].path, '/v1/chat/completions');
+    assert.equal(server.requests[0].headers.authorization, 'Bearer test-key');
+
+    const alpha = await read(vault, 'alpha.md');
+    assert.match(alpha, /^---\ntitle: Title 1\nsummary: Summary 1\.\n/);
+    assert.match(alpha, /tags:\n {2}- Garden\n {2}- Soil\n/);   // English tags default to Title Case
+    assert.match(alpha, /\n---\nAlpha body about gardening and soil\.\n$/);
+    const beta = await read(vault, 'folder/beta.md');
+    assert.match(beta, /^---\nauthor: someone\n/);
+    assert.match(beta, /title: Title 2\n/);
+    assert.equal(await read(vault, 'locked.md'), NOTES['locked.md']);
+
+    const again = await runCli(['run', vault, ...args]);
+    assert.equal(again.code, 0, again.stderr);
+    assert.match(again.stdout, /3 notes: 0 updated, 3 skipped, 0 failed/);
+    assert.equal(server.requests.length, 2);
+  }));
+
+  it('--dry-run writes nothing and --json-report describes the changes', () => withVault(chatReply, async (vault, server, args) => {
+    const reportPath = nodePath.join(vault, 'report.json');
+    const res = await runCli(['run', vault, ...args, '--dry-run', '--json-report', reportPath]);
+    assert.equal(res.code, 0, res.stderr);
+    assert.match(res.stdout, /would update {2}alpha\.md/);
+    for (const [path, text] of Object.entries(NOTES)) assert.equal(await read(vault, path), text);
+
+    const report = JSON.parse(await read(vault, 'report.json')) as RunReport;
+    assert.equal(report.dryRun, true);
+    const { cost, ...counts } = report.totals;
+    assert.deepEqual(counts, { notes: 3, updated: 2, skipped: 1, failed: 0, promptTokens: 200, completionTokens: 40 });
+    assert.ok(cost > 0);   // gpt-4o-mini has a default price
+    const alpha = report.notes.find(n => n.path === 'alpha.md');
+    assert.equal(alpha?.status, 'updated');
+    assert.deepEqual(alpha?.changes.find(c => c.key === 'title')?.to, 'Title 1');
+    assert.equal(report.notes.find(n => n.path === 'locked.md')?.reason, 'locked');
+  }));
+
+  it('--json-report without a file prints the report on stdout', () => withVault(chatReply, async (vault, server, args) => {
+    const res = await runCli(['run', vault, ...args, '--dry-run', '--json-report']);
+    assert.equal(res.code, 0, res.stderr);
+    const report = JSON.parse(res.stdout) as RunReport;
+    assert.equal(report.totals.updated, 2);
+    // The summary moves to stderr
+    assert.match(res.stderr, /3 notes: 2 would update/);
+  }));
+
+  it('reuses cached answers and stops at the budget cap', () => withVault(chatReply, async (vault, server, args) => {
+    const first = await runCli(['run', vault, ...args, '--dry-run']);
+    assert.equal(first.code, 0, first.stderr);
+    assert.equal(server.requests.length, 2);
+    const cached = await runCli(['run', vault, ...args, '--dry-run']);
+    assert.equal(cached.code, 0, cached.stderr);
+    assert.equal(server.requests.length, 2);
+
+    // Both calls above are in the usage log: today's spend is over a tiny cap, so no call is made
+    const plugin = nodePath.join(vault, '.obsidian/plugins/frontmatter-autogen');
+    await fs.writeFile(nodePath.join(plugin, 'data.json'), JSON.stringify({ budgetDaily: 0.00001, responseCacheEnabled: false }), 'utf8');
+    const capped = await runCli(['run', vault, ...args, '--json-report']);
+    assert.equal(capped.code, 1);
+    assert.equal(server.requests.length, 2);
+    const report = JSON.parse(capped.stdout) as RunReport;
+    assert.match(report.stopped ?? '', /Daily AI budget reached/);
+    assert.deepEqual(report.notes.map(n => n.status), ['failed']);
+    assert.equal(await read(vault, 'alpha.md'), NOTES['alpha.md']);
+  }));
+
+  it('reports failed notes with exit code 1', () => withVault(() => ({ status: 401, body: { error: { message: 'Invalid API key' } } }), async (vault, server, args) => {
+    const res = await runCli(['run', vault, ...args, '--json-report']);
+    assert.equal(res.code, 1);
+    const report = JSON.parse(res.stdout) as RunReport;
+    assert.equal(report.totals.failed, 2);
+    assert.match(report.notes.find(n => n.path === 'alpha.md')?.reason ?? '', /authentication failed/);
+    assert.equal(await read(vault, 'alpha.md'), NOTES['alpha.md']);
+  }));
+});
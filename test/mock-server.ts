@@ -0,0 +1,83 @@
+// test/mock-server.ts
+// Local HTTP server standing in for an AI endpoint: records each request and answers from a handler.
+import * as http from 'http';
+import type { AddressInfo, Socket } from 'net';
+
+export type MockRequest = {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  body: string;
+  json: unknown;   // parsed body, null when it is not JSON
+};
+
+export type MockReply = {
+  status?: number;                    // default 200
+  headers?: Record<string, string>;
+  body?: unknown;                     // strings are sent as they are, anything else as JSON
+  delayMs?: number;                   // answer late (for timeouts and cancellation)
+};
+
+export type MockServer = {
+  url: string;                        // http://127.0.0.1:<port>, no trailing slash
+  requests: MockRequest[];
+  close(): Promise<void>;
+};
+
+/** Start a server on a free port; `handler` gets each request and its 0-based index */
+export async function startMockServer(handler: (req: MockRequest, index: number) => MockReply): Promise<MockServer> {
+  const requests: MockRequest[] = [];
+  const sockets = new Set<Socket>();
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (c: Buffer) => chunks.push(c));
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      const headers: Record<string, string> = {};
+      for (const [k, v] of Object.entries(req.headers)) headers[k] = Array.isArray(v) ? v.join(', ') : String(v ?? '');
+      const request: MockRequest = { method: req.method ?? '', path: req.url ?? '', headers, body, json: parseJSON(body) };
+      requests.push(request);
+
+      let reply: MockReply;
+      try {
+        reply = handler(request, requests.length - 1);
+      } catch (e) {
+        reply = { status: 500, body: { error: e instanceof Error ? e.message : String(e) } };
+      }
+      const send = () => {
+        if (res.destroyed) return;
+        const text = typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body ?? {});
+        res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json', ...reply.headers });
+        res.end(text);
+      };
+      if (!reply.delayMs) return send();
+      const timer = setTimeout(send, reply.delayMs);
+      res.on('close', () => clearTimeout(timer));   // the client gave up
+    });
+  });
+  // Clients keep connections alive; close() drops them so the server stops at once
+  server.on('connection', socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => {
+      for (const socket of sockets) socket.destroy();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+function parseJSON(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,199 @@
+// test/providers.test.ts
+// Each provider against a local mock server: request and response mapping, retries, Retry-After, cancellation.
+import { strict as assert } from 'assert';
+import { describe, it } from 'node:test';
+import { classifyFailure, RequestAbortedError, retryAfterMs, RetryOptions, withRetries } from '../src/http';
+import { createProvider, fetchHttpClient, LLMProvider, ProviderConfig, ProviderError, ProviderKind } from '../src/providers';
+import { MockReply, MockRequest, MockServer, startMockServer } from './mock-server';
+
+/* =========================
+   Providers
+   ========================= */
+type ProviderCase = {
+  kind: ProviderKind;
+  baseUrl: (server: string) => string;
+  path: string;
+  reply: (text: string) => unknown;             // success body answering with `text`
+  checkRequest: (req: MockRequest) => void;
+};
+
+const ANSWER = '{"title":"Hello"}';
+const API_KEY = 'test-key';
+const MODEL = 'test-model';
+
+const CASES: ProviderCase[] = [
+  {
+    kind: 'openai',
+    baseUrl: server => `${server}/v1`,
+    path: '/v1/chat/completions',
+    reply: text => ({ choices: [{ message: { content: text } }], usage: { prompt_tokens: 11, completion_tokens: 7 } }),
+    checkRequest: req => {
+      const body = req.json as Record<string, unknown>;
+      assert.equal(req.headers.authorization, `Bearer ${API_KEY}`);
+      assert.equal(body.model, MODEL);
+      assert.deepEqual(body.response_format, { type: 'json_object' });
+      assert.deepEqual(body.messages, [{ role: 'system', content: 'system text' }, { role: 'user', content: 'prompt text' }]);
+    },
+  },
+  {
+    kind: 'anthropic',
+    baseUrl: server => `${server}/v1`,
+    path: '/v1/messages',
+    // The request prefills "{", so the answer continues after it
+    reply: text => ({ content: [{ type: 'text', text: text.slice(1) }], usage: { input_tokens: 11, output_tokens: 7 } }),
+    checkRequest: req => {
+      const body = req.json as Record<string, unknown>;
+      assert.equal(req.headers['x-api-key'], API_KEY);
+      assert.ok(req.headers['anthropic-version']);
+      assert.equal(body.model, MODEL);
+      assert.equal(body.system, 'system text');
+      assert.deepEqual(body.messages, [{ role: 'user', content: 'prompt text' }, { role: 'assistant', content: '{' }]);
+    },
+  },
+  {
+    kind: 'gemini',
+    baseUrl: server => `${server}/v1beta`,
+    path: `/v1beta/models/${MODEL}:generateContent`,
+    reply: text => ({
+      candidates: [{ content: { parts: [{ text }] } }],
+      usageMetadata: { promptTokenCount: 11, candidatesTokenCount: 7 },
+    }),
+    checkRequest: req => {
+      const body = req.json as { contents: unknown; generationConfig: Record<string, unknown> };
+      assert.equal(req.headers['x-goog-api-key'], API_KEY);
+      assert.equal(body.generationConfig.responseMimeType, 'application/json');
+      assert.deepEqual(body.contents, [{ role: 'user', parts: [{ text: 'prompt text' }] }]);
+    },
+  },
+  {
+    kind: 'ollama',
+    baseUrl: server => server,
+    path: '/api/chat',
+    reply: text => ({ message: { content: text }, prompt_eval_count: 11, eval_count: 7 }),
+    checkRequest: req => {
+      const body = req.json as Record<string, unknown>;
+      assert.equal(body.model, MODEL);
+      assert.equal(body.format, 'json');
+      assert.equal(body.stream, false);
+    },
+  },
+];
+
+// Short delays so the retry tests stay fast
+const FAST_RETRIES: RetryOptions = { timeoutMs: 0, retries: 2, baseDelayMs: 10, maxDelayMs: 1000 };
+
+type Complete = (retry: RetryOptions, signal?: AbortSignal) => ReturnType<LLMProvider['complete']>;
+
+/** Run `fn` with a provider of kind `c` pointed at a fresh mock server answering with `respond` */
+async function withProvider(
+  c: ProviderCase,
+  respond: (req: MockRequest, index: number) => MockReply,
+  fn: (complete: Complete, server: MockServer) => Promise<void>
+) {
+  const server = await startMockServer(respond);
+  const config: ProviderConfig = {
+    id: c.kind, kind: c.kind, baseUrl: c.baseUrl(server.url), apiKey: API_KEY, headers: {}, models: [MODEL], model: MODEL, jsonMode: 'native',
+  };
+  const complete: Complete = (retry, signal) => createProvider(config, withRetries(fetchHttpClient, retry))
+    .complete({ system: 'system text', prompt: 'prompt text', json: true, signal });
+  try {
+    await fn(complete, server);
+  } finally {
+    await server.close();
+  }
+}
+
+for (const c of CASES) {
+  describe(`${c.kind} provider`, () => {
+    it('maps the request and the answer', () => withProvider(c, () => ({ body: c.reply(ANSWER) }), async (complete, server) => {
+      const res = await complete(FAST_RETRIES);
+      assert.equal(res.text, ANSWER);
+      assert.deepEqual(res.usage, { promptTokens: 11, completionTokens: 7 });
+      assert.equal(server.requests.length, 1);
+      assert.equal(server.requests[0].method, 'POST');
+      assert.equal(server.requests[0].path, c.path);
+      c.checkRequest(server.requests[0]);
+    }));
+
+    it('waits for Retry-After on 429, then retries', () => withProvider(c, (req, i) => i === 0
+      ? { status: 429, headers: { 'Retry-After': '0.3' }, body: { error: { message: 'Rate limit reached' } } }
+      : { body: c.reply(ANSWER) }, async (complete, server) => {
+      // Backoff alone would wait 5s: a quick retry means Retry-After was used
+      const started = Date.now();
+      const res = await complete({ timeoutMs: 0, retries: 1, baseDelayMs: 5000, maxDelayMs: 10000 });
+      const waited = Date.now() - started;
+      assert.equal(res.text, ANSWER);
+      assert.equal(server.requests.length, 2);
+      assert.ok(waited >= 250 && waited < 4000, `waited ${waited}ms`);
+    }));
+
+    it('retries server errors', () => withProvider(c, (req, i) => i < 2
+      ? { status: i === 0 ? 500 : 503, body: 'upstream error' }
+      : { body: c.reply(ANSWER) }, async (complete, server) => {
+      const res = await complete(FAST_RETRIES);
+      assert.equal(res.text, ANSWER);
+      assert.equal(server.requests.length, 3);
+    }));
+
+    it('gives up after the last retry with a classified error', () => withProvider(c, () => ({ status: 502, body: 'bad gateway' }), async (complete, server) => {
+      await assert.rejects(complete(FAST_RETRIES), (e: unknown) => e instanceof ProviderError && e.kind === 'server' && e.status === 502);
+      assert.equal(server.requests.length, 3);
+    }));
+
+    it('does not retry quota errors', () => withProvider(c, () => ({ status: 429, body: { error: { message: 'You exceeded your current quota' } } }), async (complete, server) => {
+      await assert.rejects(complete(FAST_RETRIES), (e: unknown) => e instanceof ProviderError && e.kind === 'quota');
+      assert.equal(server.requests.length, 1);
+    }));
+
+    it('does not retry auth errors', () => withProvider(c, () => ({ status: 401, body: { error: { message: 'Invalid API key' } } }), async (complete, server) => {
+      await assert.rejects(complete(FAST_RETRIES), (e: unknown) => e instanceof ProviderError && e.kind === 'auth');
+      assert.equal(server.requests.length, 1);
+    }));
+
+    it('stops a request in flight when cancelled', () => withProvider(c, () => ({ body: c.reply(ANSWER), delayMs: 5000 }), async (complete, server) => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 100);
+      await assert.rejects(complete(FAST_RETRIES, controller.signal),
+        (e: unknown) => e instanceof RequestAbortedError && e.reason === 'cancelled');
+      assert.equal(server.requests.length, 1);
+    }));
+
+    it('stops waiting for a retry when cancelled', () => withProvider(c, () => ({ status: 503, headers: { 'Retry-After': '5' }, body: 'overloaded' }), async (complete, server) => {
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 200);
+      await assert.rejects(complete({ ...FAST_RETRIES, maxDelayMs: 10000 }, controller.signal),
+        (e: unknown) => e instanceof RequestAbortedError && e.reason === 'cancelled');
+      assert.equal(server.requests.length, 1);
+    }));
+
+    it('times out a slow attempt', () => withProvider(c, () => ({ body: c.reply(ANSWER), delayMs: 5000 }), async complete => {
+      await assert.rejects(complete({ ...FAST_RETRIES, timeoutMs: 100, retries: 0 }),
+        (e: unknown) => e instanceof RequestAbortedError && e.reason === 'timeout');
+    }));
+  });
+}
+
+/* =========================
+   Helpers
+   ========================= */
+describe('classifyFailure', () => {
+  it('tells failures apart by status and body', () => {
+    assert.equal(classifyFailure(401, ''), 'auth');
+    assert.equal(classifyFailure(429, 'Rate limit reached'), 'rate-limit');
+    assert.equal(classifyFailure(429, 'insufficient_quota'), 'quota');
+    assert.equal(classifyFailure(404, 'The model `x` does not exist'), 'model');
+    assert.equal(classifyFailure(400, 'maximum context length is 8192 tokens'), 'context');
+    assert.equal(classifyFailure(503, ''), 'server');
+    assert.equal(classifyFailure(200, 'not json'), 'response');
+  });
+});
+
+describe('retryAfterMs', () => {
+  it('reads seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    assert.equal(retryAfterMs({ 'retry-after': '2' }, now), 2000);
+    assert.equal(retryAfterMs({ 'Retry-After': 'Mon, 01 Jan 2024 00:00:30 GMT' }, now), 30000);
+    assert.equal(retryAfterMs({ 'retry-after': 'soon' }, now), null);
+    assert.equal(retryAfterMs({}, now), null);
+  });
+});
@@ -0,0 +1,35 @@
+// Bundles the TypeScript tests (and the CLI they spawn) into a temporary folder, then runs them with node:test.
+import esbuild from "esbuild";
+import builtins from "builtin-modules";
+import { spawnSync } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import process from "process";
+
+const outdir = await fs.mkdtemp(path.join(os.tmpdir(), "frontmatter-autogen-test-"));
+const tests = (await fs.readdir("test")).filter(f => f.endsWith(".test.ts")).sort();
+
+const common = {
+	bundle: true,
+	platform: "node",
+	external: [...builtins],
+	format: "cjs",
+	target: "node18",
+	logLevel: "warning",
+};
+
+let status = 1;
+try {
+	await esbuild.build({ ...common, entryPoints: tests.map(f => `test/${f}`), outdir });
+	await esbuild.build({ ...common, entryPoints: ["src/cli.ts"], outfile: path.join(outdir, "cli.js") });
+	const files = tests.map(f => path.join(outdir, f.replace(/\.ts$/, ".js")));
+	const result = spawnSync(process.execPath, ["--test", ...files], {
+		stdio: "inherit",
+		env: { ...process.env, FRONTMATTER_AUTOGEN_CLI: path.join(outdir, "cli.js") },
+	});
+	status = result.status ?? 1;
+} finally {
+	await fs.rm(outdir, { recursive: true, force: true });
+}
+process.exit(status);